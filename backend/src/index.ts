@@ -19,6 +19,8 @@ import agentsRoutes from './routes/agents';
 import conversationsRoutes from './routes/conversations';
 import integrationsRoutes from './routes/integrations';
 import analyticsRoutes from './routes/analytics';
+import memoriesRoutes from './routes/memories';
+import evaluationsRoutes from './routes/evaluations';
 
 // Load environment variables
 dotenv.config();
@@ -59,6 +61,8 @@ app.use('/api/agents', agentsRoutes);
 app.use('/api/conversations', conversationsRoutes);
 app.use('/api/integrations', integrationsRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/memories', memoriesRoutes);
+app.use('/api/evaluations', evaluationsRoutes);
 
 // WebSocket handling
 io.on('connection', (socket) => {
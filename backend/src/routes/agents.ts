@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { AgentSkill } from '@prisma/client';
 import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../database/connection';
 import { asyncHandler } from '../middleware/errorHandler';
@@ -8,6 +9,13 @@ import { checkPermission } from '../middleware/permissions';
 import { logger } from '../utils/logger';
 import { cache } from '../services/redis';
 import { agentEngine } from '../services/agent-engine';
+import { modelRegistry } from '../services/agent-engine/providers';
+import { findUnknownVariables } from '../services/agent-engine/prompt-template';
+import { checkOutputSchema } from '../services/agent-engine/structured-output';
+import { checkGuardrailConfig } from '../services/agent-engine/guardrails';
+import { semanticCache } from '../services/agent-engine/semantic-cache';
+import { agentVersions, VERSIONED_FIELDS, VersionedConfig } from '../services/agent-versions';
+import { experiments } from '../services/experiments';
 import { io } from '../index';
 
 const router = Router();
@@ -20,13 +28,66 @@ const createAgentValidation = [
   body('name').notEmpty().trim(),
   body('hebrewName').optional().trim(),
   body('description').optional().trim(),
-  body('prompt').notEmpty(),
-  body('model').isIn(['gpt-4', 'gpt-4-turbo-preview', 'gpt-3.5-turbo', 'claude-3-opus', 'claude-3-sonnet']),
+  body('prompt').notEmpty().custom((value: string) => {
+    const unknown = findUnknownVariables(value);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown prompt variables: ${unknown.join(', ')}`);
+    }
+    return true;
+  }),
+  body('model').custom((value: string) => modelRegistry.isSupported(value)).withMessage('Unsupported model'),
   body('temperature').isFloat({ min: 0, max: 2 }).toFloat(),
   body('maxTokens').isInt({ min: 1, max: 200000 }).toInt(),
   body('language').isIn(['he', 'en', 'auto']).withMessage('Invalid language'),
+  body('confidenceThreshold').optional({ nullable: true }).isFloat({ min: 0, max: 1 }).toFloat(),
+  body('fallbackModels').optional().isArray({ max: 3 }),
+  body('fallbackModels.*').custom((value: string) => modelRegistry.isSupported(value)).withMessage('Unsupported fallback model'),
+  body('fallbackMessage').optional({ nullable: true }).trim(),
+  body('type').optional().isIn(['STANDARD', 'ROUTER']).withMessage('Invalid agent type'),
+  body('handoffAgentIds').optional().isArray({ max: 20 }),
+  body('handoffAgentIds.*').isUUID(),
+  body('memoryEnabled').optional().isBoolean().toBoolean(),
+  body('redactPii').optional().isBoolean().toBoolean(),
+  body('keepPiiOriginal').optional().isBoolean().toBoolean(),
+  body('responseCacheEnabled').optional().isBoolean().toBoolean(),
+  body('responseCacheThreshold').optional().isFloat({ min: 0.8, max: 1 }).toFloat(),
+  body('guardrails').optional({ nullable: true }).custom((value: unknown) => {
+    const error = checkGuardrailConfig(value);
+    if (error) {
+      throw new Error(error);
+    }
+    return true;
+  }),
+  body('outputSchema').optional({ nullable: true }).custom((value: unknown) => {
+    const error = checkOutputSchema(value);
+    if (error) {
+      throw new Error(error);
+    }
+    return true;
+  }),
 ];
 
+/**
+ * Make sure a router only hands conversations to standard agents of its own organization
+ */
+async function checkHandoffTargets(ids: string[] | undefined, organizationId: string, agentId?: string) {
+  if (!ids || ids.length === 0) {
+    return;
+  }
+
+  if (agentId && ids.includes(agentId)) {
+    throw new AppError('An agent cannot hand off to itself', 400);
+  }
+
+  const targets = await prisma.agent.count({
+    where: { id: { in: ids }, organizationId, type: 'STANDARD' },
+  });
+
+  if (targets !== new Set(ids).size) {
+    throw new AppError('Handoff targets must be standard agents of the same organization', 400);
+  }
+}
+
 /**
  * @route GET /api/agents
  * @desc Get all agents for the user's organization
@@ -196,28 +257,54 @@ router.post('/', createAgentValidation, asyncHandler(async (req, res) => {
     name,
     hebrewName,
     description,
+    type,
     prompt,
     model,
     temperature,
     maxTokens,
     language,
+    confidenceThreshold,
+    fallbackModels,
+    fallbackMessage,
+    outputSchema,
+    handoffAgentIds,
+    memoryEnabled,
+    guardrails,
+    redactPii,
+    keepPiiOriginal,
+    responseCacheEnabled,
+    responseCacheThreshold,
     organizationId,
   } = req.body;
 
   // Check permissions
   await checkPermission(req.user, 'create', 'agent', organizationId);
 
+  await checkHandoffTargets(handoffAgentIds, organizationId);
+
   // Create agent
   const agent = await prisma.agent.create({
     data: {
       name,
       hebrewName,
       description,
+      type,
       prompt,
       model,
       temperature,
       maxTokens,
       language,
+      confidenceThreshold,
+      fallbackModels,
+      fallbackMessage,
+      outputSchema,
+      handoffAgentIds,
+      memoryEnabled,
+      guardrails,
+      redactPii,
+      keepPiiOriginal,
+      responseCacheEnabled,
+      responseCacheThreshold,
       creatorId: req.user.id,
       organizationId,
     },
@@ -233,6 +320,9 @@ router.post('/', createAgentValidation, asyncHandler(async (req, res) => {
     },
   });
 
+  // Record the initial configuration as published version 1
+  await agentVersions.ensureInitialVersion(agent, req.user.id);
+
   logger.info(`Agent created: ${agent.id} by user: ${req.user.email}`);
 
   // Emit event
@@ -251,12 +341,15 @@ router.post('/', createAgentValidation, asyncHandler(async (req, res) => {
 
 /**
  * @route PUT /api/agents/:id
- * @desc Update agent
+ * @desc Update agent. Prompt and model settings are saved to a draft version
+ *       and only go live when the draft is published.
  * @access Private
  */
 router.put('/:id', [
   param('id').isUUID(),
   ...createAgentValidation,
+  body('isActive').optional().isBoolean().toBoolean(),
+  body('notes').optional().trim(),
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -264,7 +357,7 @@ router.put('/:id', [
   }
 
   const { id } = req.params;
-  const updateData = req.body;
+  const { name, hebrewName, description, isActive, notes } = req.body;
 
   // Get existing agent
   const existingAgent = await prisma.agent.findUnique({
@@ -278,10 +371,21 @@ router.put('/:id', [
   // Check permissions
   await checkPermission(req.user, 'update', 'agent', existingAgent.organizationId);
 
-  // Update agent
+  await checkHandoffTargets(req.body.handoffAgentIds, existingAgent.organizationId, id);
+
+  // Save versioned configuration as a draft
+  const configChanges: Partial<VersionedConfig> = {};
+  for (const field of VERSIONED_FIELDS) {
+    if (req.body[field] !== undefined) {
+      configChanges[field] = req.body[field];
+    }
+  }
+  const draft = await agentVersions.saveDraft(existingAgent, configChanges, req.user.id, notes);
+
+  // Update descriptive fields and status directly; isActive: true restores a deleted agent
   const agent = await prisma.agent.update({
     where: { id },
-    data: updateData,
+    data: { name, hebrewName, description, isActive },
     include: {
       creator: {
         select: {
@@ -308,11 +412,400 @@ router.put('/:id', [
 
   res.json({
     success: true,
-    message: 'Agent updated successfully',
+    message: 'Agent updated successfully, configuration saved as draft',
+    data: { agent, draft },
+  });
+}));
+
+/**
+ * @route GET /api/agents/:id/versions
+ * @desc List agent versions
+ * @access Private
+ */
+router.get('/:id/versions', [
+  param('id').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Invalid agent ID', 400);
+  }
+
+  const { id } = req.params;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id },
+  });
+
+  if (!agent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'agent', agent.organizationId);
+
+  const versions = await agentVersions.list(id);
+
+  res.json({
+    success: true,
+    data: {
+      publishedVersion: agent.publishedVersion,
+      versions,
+    },
+  });
+}));
+
+/**
+ * @route GET /api/agents/:id/versions/diff
+ * @desc Compare two agent versions
+ * @access Private
+ */
+router.get('/:id/versions/diff', [
+  param('id').isUUID(),
+  query('from').isInt({ min: 1 }).toInt(),
+  query('to').isInt({ min: 1 }).toInt(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const { from, to } = req.query;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id },
+  });
+
+  if (!agent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'agent', agent.organizationId);
+
+  const [fromVersion, toVersion] = await Promise.all([
+    agentVersions.get(id, Number(from)),
+    agentVersions.get(id, Number(to)),
+  ]);
+
+  if (!fromVersion || !toVersion) {
+    throw new AppError('Version not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      from: fromVersion.version,
+      to: toVersion.version,
+      changes: agentVersions.diff(fromVersion, toVersion),
+    },
+  });
+}));
+
+/**
+ * @route GET /api/agents/:id/versions/:version
+ * @desc Get a single agent version
+ * @access Private
+ */
+router.get('/:id/versions/:version', [
+  param('id').isUUID(),
+  param('version').isInt({ min: 1 }).toInt(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id },
+  });
+
+  if (!agent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'agent', agent.organizationId);
+
+  const version = await agentVersions.get(id, Number(req.params.version));
+
+  if (!version) {
+    throw new AppError('Version not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { version },
+  });
+}));
+
+/**
+ * @route POST /api/agents/:id/versions/:version/publish
+ * @desc Publish a draft version
+ * @access Private
+ */
+router.post('/:id/versions/:version/publish', [
+  param('id').isUUID(),
+  param('version').isInt({ min: 1 }).toInt(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const versionNumber = Number(req.params.version);
+
+  const existingAgent = await prisma.agent.findUnique({
+    where: { id },
+  });
+
+  if (!existingAgent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'agent', existingAgent.organizationId);
+
+  const version = await agentVersions.get(id, versionNumber);
+
+  if (!version) {
+    throw new AppError('Version not found', 404);
+  }
+
+  if (version.status !== 'DRAFT') {
+    throw new AppError('Only draft versions can be published', 400);
+  }
+
+  const agent = await agentVersions.publish(version);
+
+  // Clear cache
+  await cache.del(`agent:${id}`);
+
+  logger.info(`Agent ${id} version ${versionNumber} published by user: ${req.user.email}`);
+
+  // Emit event
+  io.to(`org:${agent.organizationId}`).emit('agent:published', {
+    agentId: agent.id,
+    agentName: agent.name,
+    version: versionNumber,
+    publishedBy: req.user.email,
+  });
+
+  res.json({
+    success: true,
+    message: 'Agent version published successfully',
+    data: { agent },
+  });
+}));
+
+/**
+ * @route POST /api/agents/:id/rollback
+ * @desc Re-publish a previously published version
+ * @access Private
+ */
+router.post('/:id/rollback', [
+  param('id').isUUID(),
+  body('version').isInt({ min: 1 }).toInt(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const versionNumber = Number(req.body.version);
+
+  const existingAgent = await prisma.agent.findUnique({
+    where: { id },
+  });
+
+  if (!existingAgent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'agent', existingAgent.organizationId);
+
+  const version = await agentVersions.get(id, versionNumber);
+
+  if (!version) {
+    throw new AppError('Version not found', 404);
+  }
+
+  if (version.status !== 'ARCHIVED') {
+    throw new AppError('Can only roll back to a previously published version', 400);
+  }
+
+  const agent = await agentVersions.publish(version);
+
+  // Clear cache
+  await cache.del(`agent:${id}`);
+
+  logger.info(`Agent ${id} rolled back to version ${versionNumber} by user: ${req.user.email}`);
+
+  // Emit event
+  io.to(`org:${agent.organizationId}`).emit('agent:published', {
+    agentId: agent.id,
+    agentName: agent.name,
+    version: versionNumber,
+    publishedBy: req.user.email,
+    rollback: true,
+  });
+
+  res.json({
+    success: true,
+    message: `Agent rolled back to version ${versionNumber}`,
     data: { agent },
   });
 }));
 
+/**
+ * @route PUT /api/agents/:id/experiment
+ * @desc Start an A/B experiment between two versions, replacing any earlier one
+ * @access Private
+ */
+router.put('/:id/experiment', [
+  param('id').isUUID(),
+  body('name').optional().trim(),
+  body('controlVersion').optional().isInt({ min: 1 }).toInt(),
+  body('variantVersion').isInt({ min: 1 }).toInt(),
+  body('weight').optional().isInt({ min: 1, max: 99 }).toInt(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const { name, variantVersion, weight = 50 } = req.body;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id },
+  });
+
+  if (!agent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'agent', agent.organizationId);
+
+  // The control defaults to the published version
+  const controlVersion = req.body.controlVersion ?? agent.publishedVersion;
+
+  if (controlVersion === variantVersion) {
+    throw new AppError('Experiment variants must use different versions', 400);
+  }
+
+  const [control, variant] = await Promise.all([
+    controlVersion ? agentVersions.get(id, controlVersion) : null,
+    agentVersions.get(id, variantVersion),
+  ]);
+
+  if (!control || !variant) {
+    throw new AppError('Version not found', 404);
+  }
+
+  const experiment = await experiments.start(agent, {
+    name,
+    controlVersion: control.version,
+    variantVersion: variant.version,
+    weight,
+  });
+
+  // Clear cache
+  await cache.del(`agent:${id}`);
+
+  logger.info(`Experiment started for agent ${id} (v${control.version} vs v${variant.version}) by user: ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Experiment started',
+    data: { experiment },
+  });
+}));
+
+/**
+ * @route DELETE /api/agents/:id/experiment
+ * @desc Stop the agent's A/B experiment. Its results stay available.
+ * @access Private
+ */
+router.delete('/:id/experiment', [
+  param('id').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Invalid agent ID', 400);
+  }
+
+  const { id } = req.params;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id },
+  });
+
+  if (!agent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'agent', agent.organizationId);
+
+  const experiment = await experiments.stop(agent);
+
+  if (!experiment) {
+    throw new AppError('Agent has no experiment', 404);
+  }
+
+  // Clear cache
+  await cache.del(`agent:${id}`);
+
+  logger.info(`Experiment stopped for agent ${id} by user: ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Experiment stopped',
+    data: { experiment },
+  });
+}));
+
+/**
+ * @route DELETE /api/agents/:id/cache
+ * @desc Clear the agent's semantic response cache
+ * @access Private
+ */
+router.delete('/:id/cache', [
+  param('id').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Invalid agent ID', 400);
+  }
+
+  const { id } = req.params;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id },
+  });
+
+  if (!agent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'agent', agent.organizationId);
+
+  await semanticCache.invalidate(id);
+
+  res.json({
+    success: true,
+    message: 'Response cache cleared',
+  });
+}));
+
 /**
  * @route DELETE /api/agents/:id
  * @desc Delete agent
@@ -360,6 +853,7 @@ router.delete('/:id', [
 
   // Clear cache
   await cache.del(`agent:${id}`);
+  await semanticCache.invalidate(id);
 
   logger.info(`Agent deleted: ${id} by user: ${req.user.email}`);
 
@@ -383,6 +877,8 @@ router.delete('/:id', [
 router.post('/:id/test', [
   param('id').isUUID(),
   body('message').notEmpty(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+  body('variables').optional().isObject(),
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -390,10 +886,10 @@ router.post('/:id/test', [
   }
 
   const { id } = req.params;
-  const { message } = req.body;
+  const { message, version, variables } = req.body;
 
   // Get agent
-  const agent = await prisma.agent.findUnique({
+  let agent = await prisma.agent.findUnique({
     where: { id },
   });
 
@@ -404,6 +900,17 @@ router.post('/:id/test', [
   // Check permissions
   await checkPermission(req.user, 'read', 'agent', agent.organizationId);
 
+  // Test a specific (e.g. draft) version, with its own skills, without publishing it
+  let skills: AgentSkill[] | undefined;
+  if (version !== undefined) {
+    const agentVersion = await agentVersions.get(id, version);
+    if (!agentVersion) {
+      throw new AppError('Version not found', 404);
+    }
+    agent = { ...agent, ...agentVersions.configOf(agentVersion), publishedVersion: agentVersion.version };
+    skills = agentVersions.skillsOf(agentVersion);
+  }
+
   // Create test conversation
   const conversation = await prisma.conversation.create({
     data: {
@@ -426,6 +933,8 @@ router.post('/:id/test', [
       metadata: {
         isTest: true,
       },
+      promptVariables: variables,
+      skills,
     });
 
     res.json({
@@ -489,11 +998,23 @@ router.post('/:id/duplicate', [
         name,
         hebrewName: originalAgent.hebrewName ? `${originalAgent.hebrewName} - העתק` : undefined,
         description: originalAgent.description,
+        type: originalAgent.type,
         prompt: originalAgent.prompt,
         model: originalAgent.model,
         temperature: originalAgent.temperature,
         maxTokens: originalAgent.maxTokens,
         language: originalAgent.language,
+        confidenceThreshold: originalAgent.confidenceThreshold,
+        fallbackModels: originalAgent.fallbackModels,
+        fallbackMessage: originalAgent.fallbackMessage,
+        outputSchema: originalAgent.outputSchema ?? undefined,
+        handoffAgentIds: originalAgent.handoffAgentIds,
+        memoryEnabled: originalAgent.memoryEnabled,
+        guardrails: originalAgent.guardrails ?? undefined,
+        redactPii: originalAgent.redactPii,
+        keepPiiOriginal: originalAgent.keepPiiOriginal,
+        responseCacheEnabled: originalAgent.responseCacheEnabled,
+        responseCacheThreshold: originalAgent.responseCacheThreshold,
         creatorId: req.user.id,
         organizationId: originalAgent.organizationId,
       },
@@ -515,6 +1036,8 @@ router.post('/:id/duplicate', [
     return newAgent;
   });
 
+  await agentVersions.ensureInitialVersion(duplicatedAgent, req.user.id);
+
   logger.info(`Agent duplicated: ${id} -> ${duplicatedAgent.id} by user: ${req.user.email}`);
 
   res.status(201).json({
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { Prisma } from '@prisma/client';
 import { query, validationResult } from 'express-validator';
 import { prisma } from '../database/connection';
 import { asyncHandler } from '../middleware/errorHandler';
@@ -6,6 +7,7 @@ import { AppError } from '../middleware/errorHandler';
 import { authMiddleware } from '../middleware/auth';
 import { checkPermission } from '../middleware/permissions';
 import { cache } from '../services/redis';
+import { experimentOf, experiments } from '../services/experiments';
 import dayjs from 'dayjs';
 
 const router = Router();
@@ -326,7 +328,32 @@ router.get('/agents', [
       a.name,
       a."hebrew_name",
       COUNT(DISTINCT c.id) as total_conversations,
-      COUNT(DISTINCT m.id) as total_messages,
+      -- Messages are attributed to the agent that handled the turn
+      (
+        SELECT COUNT(*)
+        FROM messages m
+        JOIN conversations mc ON mc.id = m."conversation_id"
+        WHERE COALESCE(m."agent_id", mc."agent_id") = a.id
+          AND m."created_at" >= ${start.toDate()}
+          AND m."created_at" <= ${end.toDate()}
+      ) as total_messages,
+      (
+        SELECT COUNT(*)
+        FROM messages h
+        WHERE h.role = 'SYSTEM'
+          AND h.metadata->'handoff'->>'toAgentId' = a.id
+          AND h."created_at" >= ${start.toDate()}
+          AND h."created_at" <= ${end.toDate()}
+      ) as handoffs_received,
+      (
+        SELECT COUNT(*)
+        FROM messages g
+        WHERE g.role = 'ASSISTANT'
+          AND g."agent_id" = a.id
+          AND g.metadata->'guardrails' IS NOT NULL
+          AND g."created_at" >= ${start.toDate()}
+          AND g."created_at" <= ${end.toDate()}
+      ) as guardrail_flagged,
       AVG(CASE 
         WHEN c."ended_at" IS NOT NULL 
         THEN EXTRACT(EPOCH FROM (c."ended_at" - c."started_at")) 
@@ -341,13 +368,29 @@ router.get('/agents', [
     LEFT JOIN conversations c ON c."agent_id" = a.id 
       AND c."started_at" >= ${start.toDate()}
       AND c."started_at" <= ${end.toDate()}
-    LEFT JOIN messages m ON m."conversation_id" = c.id
     WHERE a."organization_id" = ${organizationId}
       AND a."is_active" = true
     GROUP BY a.id, a.name, a."hebrew_name"
     ORDER BY total_conversations DESC
   `;
 
+  // A/B experiments are reported over their whole run, regardless of the date range
+  const experimentAgents = await prisma.agent.findMany({
+    where: {
+      organizationId: organizationId as string,
+      isActive: true,
+      experiment: { not: Prisma.DbNull },
+    },
+    select: { id: true, experiment: true },
+  });
+
+  const experimentResults = new Map(await Promise.all(
+    experimentAgents.map(async agent => {
+      const experiment = experimentOf(agent)!;
+      return [agent.id, { ...experiment, variants: await experiments.results(experiment) }] as const;
+    })
+  ));
+
   // Calculate additional metrics
   const enhancedPerformance = agentPerformance.map(agent => {
     const totalConv = parseInt(agent.total_conversations) || 0;
@@ -361,6 +404,8 @@ router.get('/agents', [
       metrics: {
         totalConversations: totalConv,
         totalMessages: parseInt(agent.total_messages) || 0,
+        handoffsReceived: parseInt(agent.handoffs_received) || 0,
+        guardrailFlaggedMessages: parseInt(agent.guardrail_flagged) || 0,
         avgConversationDuration: agent.avg_conversation_duration 
           ? Math.round(agent.avg_conversation_duration) 
           : 0,
@@ -374,6 +419,7 @@ router.get('/agents', [
           ? Math.round((parseInt(agent.total_messages) / totalConv) * 10) / 10 
           : 0,
       },
+      experiment: experimentResults.get(agent.id) || null,
     };
   });
 
@@ -420,17 +466,16 @@ router.get('/topics', [
   });
   const agentIds = agents.map(a => a.id);
 
-  // In production, this would use NLP to extract topics
-  // For now, we'll use a simplified approach
+  // Topics are lemmas stored by conversation analysis, so inflected forms count together
   const topics = await prisma.$queryRaw<any[]>`
     SELECT 
-      metadata->>'topic' as topic,
+      topic,
       COUNT(*) as count
-    FROM conversations
+    FROM conversations,
+      jsonb_array_elements_text(metadata->'analysis'->'topics') as topic
     WHERE "agent_id" = ANY(${agentIds})
       AND "started_at" >= ${start.toDate()}
       AND "started_at" <= ${end.toDate()}
-      AND metadata->>'topic' IS NOT NULL
     GROUP BY topic
     ORDER BY count DESC
     LIMIT ${parseInt(limit as string)}
@@ -451,4 +496,261 @@ router.get('/topics', [
   });
 }));
 
+/**
+ * @route GET /api/analytics/usage
+ * @desc Get token usage and cost, grouped by agent, conversation, model or day
+ * @access Private
+ */
+router.get('/usage', [
+  query('organizationId').isUUID(),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601(),
+  query('groupBy').optional().isIn(['agent', 'conversation', 'model', 'day']),
+  query('agentId').optional().isUUID(),
+  query('conversationId').optional().isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { organizationId, startDate, endDate, groupBy = 'agent', agentId, conversationId } = req.query;
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'analytics', organizationId as string);
+
+  const end = endDate ? dayjs(endDate as string) : dayjs();
+  const start = startDate ? dayjs(startDate as string) : end.subtract(30, 'days');
+
+  const where = {
+    organizationId: organizationId as string,
+    agentId: agentId as string | undefined,
+    conversationId: conversationId as string | undefined,
+    createdAt: {
+      gte: start.toDate(),
+      lte: end.toDate(),
+    },
+  };
+
+  const totals = await prisma.usageRecord.aggregate({
+    where,
+    _sum: { promptTokens: true, completionTokens: true, totalTokens: true, cost: true },
+    _count: true,
+  });
+
+  let groups: any[];
+  if (groupBy === 'day') {
+    groups = await prisma.$queryRaw<any[]>`
+      SELECT
+        DATE_TRUNC('day', "created_at") as key,
+        SUM("prompt_tokens") as prompt_tokens,
+        SUM("completion_tokens") as completion_tokens,
+        SUM("total_tokens") as total_tokens,
+        SUM(cost) as cost,
+        COUNT(*) as calls
+      FROM usage_records
+      WHERE "organization_id" = ${organizationId}
+        AND (${agentId ?? null}::text IS NULL OR "agent_id" = ${agentId ?? null})
+        AND (${conversationId ?? null}::text IS NULL OR "conversation_id" = ${conversationId ?? null})
+        AND "created_at" >= ${start.toDate()}
+        AND "created_at" <= ${end.toDate()}
+      GROUP BY key
+      ORDER BY key
+    `;
+    groups = groups.map(group => ({
+      key: dayjs(group.key).format('YYYY-MM-DD'),
+      promptTokens: parseInt(group.prompt_tokens) || 0,
+      completionTokens: parseInt(group.completion_tokens) || 0,
+      totalTokens: parseInt(group.total_tokens) || 0,
+      cost: parseFloat(group.cost) || 0,
+      calls: parseInt(group.calls) || 0,
+    }));
+  } else {
+    const field = groupBy === 'agent' ? 'agentId' : groupBy === 'conversation' ? 'conversationId' : 'model';
+    const rows = await prisma.usageRecord.groupBy({
+      by: [field],
+      where,
+      _sum: { promptTokens: true, completionTokens: true, totalTokens: true, cost: true },
+      _count: true,
+    });
+    groups = rows
+      .map((row: any) => ({
+        key: row[field],
+        promptTokens: row._sum.promptTokens || 0,
+        completionTokens: row._sum.completionTokens || 0,
+        totalTokens: row._sum.totalTokens || 0,
+        cost: row._sum.cost || 0,
+        calls: row._count,
+      }))
+      .sort((a, b) => b.cost - a.cost);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      totals: {
+        promptTokens: totals._sum.promptTokens || 0,
+        completionTokens: totals._sum.completionTokens || 0,
+        totalTokens: totals._sum.totalTokens || 0,
+        cost: totals._sum.cost || 0,
+        calls: totals._count,
+      },
+      groupBy,
+      groups,
+      dateRange: {
+        start: start.format('YYYY-MM-DD'),
+        end: end.format('YYYY-MM-DD'),
+      },
+    },
+  });
+}));
+
+/**
+ * @route GET /api/analytics/guardrails
+ * @desc Get guardrail violations by rule, action and agent
+ * @access Private
+ */
+router.get('/guardrails', [
+  query('organizationId').isUUID(),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601(),
+  query('agentId').optional().isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { organizationId, startDate, endDate, agentId } = req.query;
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'analytics', organizationId as string);
+
+  const end = endDate ? dayjs(endDate as string) : dayjs();
+  const start = startDate ? dayjs(startDate as string) : end.subtract(30, 'days');
+
+  // One row per violation recorded on assistant messages
+  const violations = await prisma.$queryRaw<any[]>`
+    SELECT
+      m."agent_id" as agent_id,
+      m.metadata->'guardrails'->>'action' as action,
+      v.violation->>'stage' as stage,
+      v.violation->>'rule' as rule,
+      COUNT(*) as violations
+    FROM messages m
+    JOIN agents a ON a.id = m."agent_id"
+    CROSS JOIN LATERAL jsonb_array_elements(m.metadata->'guardrails'->'violations') AS v(violation)
+    WHERE a."organization_id" = ${organizationId}
+      AND (${agentId ?? null}::text IS NULL OR m."agent_id" = ${agentId ?? null})
+      AND m.role = 'ASSISTANT'
+      AND m."created_at" >= ${start.toDate()}
+      AND m."created_at" <= ${end.toDate()}
+    GROUP BY m."agent_id", action, stage, rule
+  `;
+
+  const rows = violations.map(row => ({
+    agentId: row.agent_id,
+    action: row.action,
+    stage: row.stage,
+    rule: row.rule,
+    violations: parseInt(row.violations) || 0,
+  }));
+
+  const sumBy = (key: 'agentId' | 'action' | 'rule') => rows.reduce((acc: Record<string, number>, row) => {
+    acc[row[key]] = (acc[row[key]] || 0) + row.violations;
+    return acc;
+  }, {});
+
+  res.json({
+    success: true,
+    data: {
+      total: rows.reduce((sum, row) => sum + row.violations, 0),
+      byRule: sumBy('rule'),
+      byAction: sumBy('action'),
+      byAgent: sumBy('agentId'),
+      breakdown: rows,
+      dateRange: {
+        start: start.format('YYYY-MM-DD'),
+        end: end.format('YYYY-MM-DD'),
+      },
+    },
+  });
+}));
+
+/**
+ * @route GET /api/analytics/cache
+ * @desc Get semantic response cache hit rates by agent
+ * @access Private
+ */
+router.get('/cache', [
+  query('organizationId').isUUID(),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { organizationId, startDate, endDate } = req.query;
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'analytics', organizationId as string);
+
+  const end = endDate ? dayjs(endDate as string) : dayjs();
+  const start = startDate ? dayjs(startDate as string) : end.subtract(30, 'days');
+
+  // Every answer of a cache-enabled agent records whether it came from the cache
+  const cacheData = await prisma.$queryRaw<any[]>`
+    SELECT
+      a.id,
+      a.name,
+      a."hebrew_name",
+      COUNT(*) as lookups,
+      COUNT(*) FILTER (WHERE m.metadata->'cache'->>'hit' = 'true') as hits
+    FROM messages m
+    JOIN agents a ON a.id = m."agent_id"
+    WHERE a."organization_id" = ${organizationId}
+      AND m.role = 'ASSISTANT'
+      AND m.metadata->'cache' IS NOT NULL
+      AND m."created_at" >= ${start.toDate()}
+      AND m."created_at" <= ${end.toDate()}
+    GROUP BY a.id, a.name, a."hebrew_name"
+    ORDER BY lookups DESC
+  `;
+
+  const hitRate = (hits: number, lookups: number) =>
+    lookups > 0 ? Math.round((hits / lookups) * 100 * 10) / 10 : 0;
+
+  const agents = cacheData.map(agent => {
+    const lookups = parseInt(agent.lookups) || 0;
+    const hits = parseInt(agent.hits) || 0;
+    return {
+      id: agent.id,
+      name: agent.name,
+      hebrewName: agent.hebrew_name,
+      lookups,
+      hits,
+      hitRate: hitRate(hits, lookups),
+    };
+  });
+
+  const lookups = agents.reduce((sum, agent) => sum + agent.lookups, 0);
+  const hits = agents.reduce((sum, agent) => sum + agent.hits, 0);
+
+  res.json({
+    success: true,
+    data: {
+      lookups,
+      hits,
+      hitRate: hitRate(hits, lookups),
+      agents,
+      dateRange: {
+        start: start.format('YYYY-MM-DD'),
+        end: end.format('YYYY-MM-DD'),
+      },
+    },
+  });
+}));
+
 export default router;
\ No newline at end of file
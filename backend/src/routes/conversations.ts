@@ -7,8 +7,16 @@ import { authMiddleware } from '../middleware/auth';
 import { checkPermission } from '../middleware/permissions';
 import { logger } from '../utils/logger';
 import { agentEngine } from '../services/agent-engine';
+import { agentMemory } from '../services/agent-engine/memory';
+import { experiments } from '../services/experiments';
+import { agentVersions } from '../services/agent-versions';
+import { conversationReplay } from '../services/conversation-replay';
+import { queues } from '../workers/queues';
 import { io } from '../index';
 import { hebrewNLP } from '../services/hebrew-nlp';
+import { NIKUD } from '../services/hebrew-nlp/nikud';
+import { decryptData } from '../utils/encryption';
+import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
 
@@ -72,16 +80,16 @@ router.get('/', asyncHandler(async (req, res) => {
     }
   }
 
-  // Search in messages if search term provided
+  // Search in messages if search term provided, ignoring case and nikud on both sides
   if (search) {
-    const messageIds = await prisma.message.findMany({
-      where: {
-        content: { contains: search as string, mode: 'insensitive' },
-      },
-      select: { conversationId: true },
-      distinct: ['conversationId'],
-    });
-    where.id = { in: messageIds.map(m => m.conversationId) };
+    const term = hebrewNLP.removeNikud(search as string);
+    const nikudPattern = `[${NIKUD}]`;
+    const messageIds = await prisma.$queryRaw<{ conversation_id: string }[]>`
+      SELECT DISTINCT "conversation_id"
+      FROM messages
+      WHERE strpos(lower(regexp_replace(content, ${nikudPattern}, '', 'g')), lower(${term})) > 0
+    `;
+    where.id = { in: messageIds.map(m => m.conversation_id) };
   }
 
   // Calculate pagination
@@ -202,12 +210,69 @@ router.get('/:id', [
     data: {
       conversation: {
         ...conversation,
+        // Originals of masked messages are only returned by the dedicated endpoint
+        messages: conversation.messages.map(({ encryptedOriginal, ...message }) => ({
+          ...message,
+          hasOriginal: encryptedOriginal !== null,
+        })),
         sentimentAnalysis,
       },
     },
   });
 }));
 
+/**
+ * @route GET /api/conversations/:id/messages/:messageId/original
+ * @desc Get the original content of a message whose personal details were masked
+ * @access Private
+ */
+router.get('/:id/messages/:messageId/original', [
+  param('id').isUUID(),
+  param('messageId').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { id, messageId } = req.params;
+
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, conversationId: id },
+    include: {
+      conversation: {
+        include: {
+          agent: {
+            select: {
+              organizationId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!message) {
+    throw new AppError('Message not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'conversation', message.conversation.agent.organizationId);
+
+  if (!message.encryptedOriginal) {
+    throw new AppError('No original content is stored for this message', 404);
+  }
+
+  logger.info(`Original content of message ${messageId} accessed by user: ${req.user.email}`);
+
+  res.json({
+    success: true,
+    data: {
+      content: decryptData(message.encryptedOriginal),
+    },
+  });
+}));
+
 /**
  * @route POST /api/conversations
  * @desc Start a new conversation
@@ -216,6 +281,7 @@ router.get('/:id', [
 router.post('/', [
   body('agentId').isUUID(),
   body('channel').optional().isIn(['web', 'whatsapp', 'telegram', 'facebook', 'slack', 'discord', 'sms', 'email']),
+  body('externalUserId').optional().isString().trim().notEmpty().isLength({ max: 200 }),
   body('metadata').optional().isObject(),
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
@@ -223,7 +289,7 @@ router.post('/', [
     throw new AppError('Validation failed', 400);
   }
 
-  const { agentId, channel = 'web', metadata } = req.body;
+  const { agentId, channel = 'web', externalUserId, metadata } = req.body;
 
   // Get agent
   const agent = await prisma.agent.findUnique({
@@ -237,13 +303,17 @@ router.post('/', [
   // Check permissions
   await checkPermission(req.user, 'create', 'conversation', agent.organizationId);
 
+  // Assign a variant when the agent is running an A/B experiment
+  const assignment = experiments.assign(agent);
+
   // Create conversation
   const conversation = await prisma.conversation.create({
     data: {
       agentId,
       userId: req.user.id,
       channel,
-      metadata,
+      externalUserId,
+      metadata: assignment ? { ...metadata, experiment: assignment } : metadata,
     },
     include: {
       agent: {
@@ -312,30 +382,57 @@ router.post('/:id/messages', [
   // Check permissions
   await checkPermission(req.user, 'update', 'conversation', conversation.agent.organizationId);
 
-  // Emit typing indicator
-  io.to(`conversation:${id}`).emit('agent:typing', { conversationId: id });
+  const room = `conversation-${id}`;
+  const streamId = uuidv4();
+
+  // Emit typing indicator and stream start
+  io.to(room).emit('agent:typing', { conversationId: id });
+  io.to(room).emit('message:start', { conversationId: id, streamId });
 
   try {
-    // Process message with agent engine
+    // Process message with agent engine, streaming tokens to the room
     const response = await agentEngine.processMessage({
       agent: conversation.agent,
       conversation,
       history: conversation.messages.reverse(), // Chronological order
       userInput: content,
       metadata,
-    });
-
-    // Emit response
-    io.to(`conversation:${id}`).emit('message:new', {
-      conversationId: id,
-      message: {
-        role: 'ASSISTANT',
-        content: response.content,
-        metadata: response.metadata,
-        createdAt: new Date(),
+    }, {
+      onToken: (token) => {
+        io.to(room).emit('message:delta', { conversationId: id, streamId, delta: token });
+      },
+      onReset: () => {
+        io.to(room).emit('message:reset', { conversationId: id, streamId });
       },
     });
 
+    const message = {
+      role: 'ASSISTANT',
+      content: response.content,
+      metadata: response.metadata,
+      createdAt: new Date(),
+    };
+
+    // Emit final (post-processed) response
+    io.to(room).emit('message:end', { conversationId: id, streamId, message });
+    io.to(room).emit('message:new', { conversationId: id, message });
+
+    // A router agent handed the conversation to another agent
+    if (response.metadata?.handoff) {
+      const handoffEvent = { conversationId: id, ...response.metadata.handoff };
+      io.to(room).emit('conversation:handoff', handoffEvent);
+      io.to(`org:${conversation.agent.organizationId}`).emit('conversation:handoff', handoffEvent);
+    }
+
+    // The engine hands low-confidence and guardrail-escalated conversations to a human
+    if (response.metadata?.transferred) {
+      io.to(`org:${conversation.agent.organizationId}`).emit('conversation:transferred', {
+        conversationId: id,
+        agentName: conversation.agent.name,
+        reason: response.metadata.transferReason,
+      });
+    }
+
     res.json({
       success: true,
       data: {
@@ -349,7 +446,12 @@ router.post('/:id/messages', [
     logger.error('Message processing failed:', error);
     
     // Emit error
-    io.to(`conversation:${id}`).emit('agent:error', {
+    io.to(room).emit('message:error', {
+      conversationId: id,
+      streamId,
+      error: 'Failed to process message',
+    });
+    io.to(room).emit('agent:error', {
       conversationId: id,
       error: 'Failed to process message',
     });
@@ -358,6 +460,74 @@ router.post('/:id/messages', [
   }
 }));
 
+/**
+ * @route POST /api/conversations/:id/replay
+ * @desc Re-run a conversation's user messages against the current or a given agent version, without saving
+ * @access Private
+ */
+router.post('/:id/replay', [
+  param('id').isUUID(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const { version } = req.body;
+
+  const conversation = await prisma.conversation.findUnique({
+    where: { id },
+    include: {
+      messages: {
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  if (!conversation) {
+    throw new AppError('Conversation not found', 404);
+  }
+
+  // Replay from the agent the conversation started with, before any router handoff
+  const metadata = (conversation.metadata as Record<string, any>) || {};
+  const agentId: string = metadata.handoffs?.[0]?.fromAgentId || conversation.agentId;
+
+  let agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+  });
+
+  if (!agent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'conversation', agent.organizationId);
+
+  if (version !== undefined) {
+    const agentVersion = await agentVersions.get(agent.id, version);
+    if (!agentVersion) {
+      throw new AppError('Version not found', 404);
+    }
+    agent = { ...agent, ...agentVersions.configOf(agentVersion), publishedVersion: agentVersion.version };
+  }
+
+  const replay = await conversationReplay.replay(conversation, agent);
+
+  logger.info(`Conversation ${id} replayed against agent ${agent.id} version ${agent.publishedVersion} by user: ${req.user.email}`);
+
+  res.json({
+    success: true,
+    data: {
+      conversationId: id,
+      agentId: agent.id,
+      agentVersion: agent.publishedVersion,
+      ...replay,
+    },
+  });
+}));
+
 /**
  * @route PUT /api/conversations/:id/end
  * @desc End a conversation
@@ -411,8 +581,16 @@ router.put('/:id/end', [
 
   logger.info(`Conversation ended: ${id}, duration: ${duration}ms, messages: ${messageCount}`);
 
+  // Remember facts about the user for their next conversation, without delaying the response
+  agentMemory.extractFromConversation(id).catch(error => {
+    logger.error(`Memory extraction failed for conversation ${id}:`, error);
+  });
+
+  // Sentiment and topics feed analytics and experiment results
+  await queues.conversationAnalysis.add({ conversationId: id });
+
   // Emit event
-  io.to(`conversation:${id}`).emit('conversation:ended', {
+  io.to(`conversation-${id}`).emit('conversation:ended', {
     conversationId: id,
     duration,
     messageCount,
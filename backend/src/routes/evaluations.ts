@@ -0,0 +1,454 @@
+import { Router } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { prisma } from '../database/connection';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError } from '../middleware/errorHandler';
+import { authMiddleware } from '../middleware/auth';
+import { checkPermission } from '../middleware/permissions';
+import { logger } from '../utils/logger';
+import { agentVersions } from '../services/agent-versions';
+import { evaluationService } from '../services/evaluation';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+const MAX_CASES = 200;
+const MAX_TURNS = 20;
+
+const suiteValidation = [
+  body('name').notEmpty().trim(),
+  body('description').optional({ nullable: true }).trim(),
+  body('cases').isArray({ min: 1, max: MAX_CASES }),
+  body('cases.*.name').notEmpty().trim(),
+  body('cases.*.turns').isArray({ min: 1, max: MAX_TURNS }),
+  body('cases.*.turns.*').isString().trim().notEmpty(),
+  body('cases.*.criteria').custom((value: unknown) => {
+    const error = evaluationService.checkCriteria(value);
+    if (error) {
+      throw new Error(error);
+    }
+    return true;
+  }),
+];
+
+type CaseInput = { name: string; turns: string[]; criteria: any[] };
+
+/**
+ * Load a suite with its agent's organization, or fail with 404
+ */
+async function findSuite(id: string) {
+  const suite = await prisma.evalSuite.findUnique({
+    where: { id },
+    include: {
+      agent: {
+        select: {
+          id: true,
+          name: true,
+          organizationId: true,
+          publishedVersion: true,
+        },
+      },
+    },
+  });
+
+  if (!suite) {
+    throw new AppError('Evaluation suite not found', 404);
+  }
+
+  return suite;
+}
+
+/**
+ * @route GET /api/evaluations/suites
+ * @desc List the evaluation suites of an agent
+ * @access Private
+ */
+router.get('/suites', [
+  query('agentId').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Invalid agent ID', 400);
+  }
+
+  const agentId = req.query.agentId as string;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+  });
+
+  if (!agent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'agent', agent.organizationId);
+
+  const suites = await prisma.evalSuite.findMany({
+    where: { agentId },
+    include: {
+      _count: {
+        select: {
+          cases: true,
+          runs: true,
+        },
+      },
+      runs: {
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({
+    success: true,
+    data: {
+      suites: suites.map(({ runs, ...suite }) => ({ ...suite, lastRun: runs[0] || null })),
+    },
+  });
+}));
+
+/**
+ * @route POST /api/evaluations/suites
+ * @desc Create an evaluation suite with its golden conversations
+ * @access Private
+ */
+router.post('/suites', [
+  body('agentId').isUUID(),
+  ...suiteValidation,
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { agentId, name, description, cases } = req.body;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id: agentId },
+  });
+
+  if (!agent) {
+    throw new AppError('Agent not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'agent', agent.organizationId);
+
+  const suite = await prisma.evalSuite.create({
+    data: {
+      agentId,
+      name,
+      description,
+      createdById: req.user.id,
+      cases: {
+        create: (cases as CaseInput[]).map(evalCase => ({
+          name: evalCase.name,
+          turns: evalCase.turns,
+          criteria: evalCase.criteria,
+        })),
+      },
+    },
+    include: {
+      cases: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  logger.info(`Evaluation suite created: ${suite.id} for agent ${agentId} by user: ${req.user.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Evaluation suite created successfully',
+    data: { suite },
+  });
+}));
+
+/**
+ * @route GET /api/evaluations/suites/:id
+ * @desc Get an evaluation suite with its cases
+ * @access Private
+ */
+router.get('/suites/:id', [
+  param('id').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Invalid suite ID', 400);
+  }
+
+  const suite = await findSuite(req.params.id);
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'agent', suite.agent.organizationId);
+
+  const cases = await prisma.evalCase.findMany({
+    where: { suiteId: suite.id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  res.json({
+    success: true,
+    data: {
+      suite: { ...suite, cases },
+    },
+  });
+}));
+
+/**
+ * @route PUT /api/evaluations/suites/:id
+ * @desc Update an evaluation suite. The given cases replace the existing ones.
+ * @access Private
+ */
+router.put('/suites/:id', [
+  param('id').isUUID(),
+  ...suiteValidation,
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const existingSuite = await findSuite(req.params.id);
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'agent', existingSuite.agent.organizationId);
+
+  const { name, description, cases } = req.body;
+
+  // Results of earlier runs keep the case name, so they stay readable
+  const suite = await prisma.$transaction(async (tx) => {
+    await tx.evalCase.deleteMany({ where: { suiteId: existingSuite.id } });
+    return tx.evalSuite.update({
+      where: { id: existingSuite.id },
+      data: {
+        name,
+        description,
+        cases: {
+          create: (cases as CaseInput[]).map(evalCase => ({
+            name: evalCase.name,
+            turns: evalCase.turns,
+            criteria: evalCase.criteria,
+          })),
+        },
+      },
+      include: {
+        cases: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+  });
+
+  logger.info(`Evaluation suite updated: ${suite.id} by user: ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Evaluation suite updated successfully',
+    data: { suite },
+  });
+}));
+
+/**
+ * @route DELETE /api/evaluations/suites/:id
+ * @desc Delete an evaluation suite with its runs
+ * @access Private
+ */
+router.delete('/suites/:id', [
+  param('id').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Invalid suite ID', 400);
+  }
+
+  const suite = await findSuite(req.params.id);
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'agent', suite.agent.organizationId);
+
+  const runsInProgress = await prisma.evalRun.count({
+    where: { suiteId: suite.id, status: { in: ['QUEUED', 'RUNNING'] } },
+  });
+
+  if (runsInProgress > 0) {
+    throw new AppError('Suite has runs in progress', 409);
+  }
+
+  // Cases, runs and results are deleted with the suite
+  await prisma.evalSuite.delete({
+    where: { id: suite.id },
+  });
+
+  logger.info(`Evaluation suite deleted: ${suite.id} by user: ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Evaluation suite deleted successfully',
+  });
+}));
+
+/**
+ * @route POST /api/evaluations/suites/:id/runs
+ * @desc Queue a run of the suite against an agent version (default: the published one)
+ * @access Private
+ */
+router.post('/suites/:id/runs', [
+  param('id').isUUID(),
+  body('version').optional().isInt({ min: 1 }).toInt(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const suite = await findSuite(req.params.id);
+
+  // Check permissions
+  await checkPermission(req.user, 'update', 'agent', suite.agent.organizationId);
+
+  const versionNumber = req.body.version ?? suite.agent.publishedVersion;
+  const version = versionNumber ? await agentVersions.get(suite.agentId, versionNumber) : null;
+
+  if (!version) {
+    throw new AppError('Version not found', 404);
+  }
+
+  const run = await evaluationService.enqueueRun(suite, version.version, req.user.id);
+
+  logger.info(`Evaluation run ${run.id} started by user: ${req.user.email}`);
+
+  res.status(202).json({
+    success: true,
+    message: 'Evaluation run queued',
+    data: { run },
+  });
+}));
+
+/**
+ * @route GET /api/evaluations/suites/:id/runs
+ * @desc List the runs of a suite
+ * @access Private
+ */
+router.get('/suites/:id/runs', [
+  param('id').isUUID(),
+  query('version').optional().isInt({ min: 1 }).toInt(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const suite = await findSuite(req.params.id);
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'agent', suite.agent.organizationId);
+
+  const { version } = req.query;
+
+  const runs = await prisma.evalRun.findMany({
+    where: {
+      suiteId: suite.id,
+      ...(version !== undefined && { agentVersion: Number(version) }),
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({
+    success: true,
+    data: { runs },
+  });
+}));
+
+/**
+ * @route GET /api/evaluations/runs/compare
+ * @desc Compare two runs of the same suite, e.g. a draft against the published version
+ * @access Private
+ */
+router.get('/runs/compare', [
+  query('base').isUUID(),
+  query('candidate').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const [base, candidate] = await Promise.all(
+    [req.query.base, req.query.candidate].map(id =>
+      prisma.evalRun.findUnique({
+        where: { id: id as string },
+        include: { results: true },
+      })
+    )
+  );
+
+  if (!base || !candidate) {
+    throw new AppError('Evaluation run not found', 404);
+  }
+
+  if (base.suiteId !== candidate.suiteId) {
+    throw new AppError('Runs must belong to the same suite', 400);
+  }
+
+  const suite = await findSuite(base.suiteId);
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'agent', suite.agent.organizationId);
+
+  if (base.status !== 'COMPLETED' || candidate.status !== 'COMPLETED') {
+    throw new AppError('Both runs must be completed', 409);
+  }
+
+  const { results: _baseResults, ...baseRun } = base;
+  const { results: _candidateResults, ...candidateRun } = candidate;
+
+  res.json({
+    success: true,
+    data: {
+      base: baseRun,
+      candidate: candidateRun,
+      ...evaluationService.compare(base, candidate),
+    },
+  });
+}));
+
+/**
+ * @route GET /api/evaluations/runs/:id
+ * @desc Get a run with its pass/fail report
+ * @access Private
+ */
+router.get('/runs/:id', [
+  param('id').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Invalid run ID', 400);
+  }
+
+  const run = await prisma.evalRun.findUnique({
+    where: { id: req.params.id },
+    include: {
+      results: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  if (!run) {
+    throw new AppError('Evaluation run not found', 404);
+  }
+
+  const suite = await findSuite(run.suiteId);
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'agent', suite.agent.organizationId);
+
+  res.json({
+    success: true,
+    data: {
+      run,
+      cost: run.results.reduce((sum, result) => sum + result.cost, 0),
+    },
+  });
+}));
+
+export default router;
\ No newline at end of file
@@ -6,7 +6,7 @@ import { AppError } from '../middleware/errorHandler';
 import { authMiddleware } from '../middleware/auth';
 import { checkPermission } from '../middleware/permissions';
 import { logger } from '../utils/logger';
-import { encryptData, decryptData } from '../utils/encryption';
+import { encryptData, decryptConfiguration, isSensitiveField } from '../utils/encryption';
 
 const router = Router();
 
@@ -122,7 +122,7 @@ router.get('/', asyncHandler(async (req, res) => {
 
     // Show only non-sensitive fields
     Object.keys(config).forEach(key => {
-      if (key.includes('Token') || key.includes('Secret') || key.includes('Password') || key.includes('Key')) {
+      if (isSensitiveField(key)) {
         sanitizedConfig[key] = '••••••••';
       } else {
         sanitizedConfig[key] = config[key];
@@ -180,7 +180,7 @@ router.get('/:id', [
   const sanitizedConfig: any = {};
 
   Object.keys(config).forEach(key => {
-    if (key.includes('Token') || key.includes('Secret') || key.includes('Password') || key.includes('Key')) {
+    if (isSensitiveField(key)) {
       sanitizedConfig[key] = '••••••••';
     } else {
       sanitizedConfig[key] = config[key];
@@ -234,7 +234,7 @@ router.post('/', [
   // Encrypt sensitive data
   const encryptedConfig: any = {};
   Object.keys(configuration).forEach(key => {
-    if (key.includes('Token') || key.includes('Secret') || key.includes('Password') || key.includes('Key')) {
+    if (isSensitiveField(key)) {
       encryptedConfig[key] = encryptData(configuration[key]);
     } else {
       encryptedConfig[key] = configuration[key];
@@ -313,17 +313,8 @@ router.put('/:id', [
 
   if (configuration) {
     // Merge with existing configuration
-    const existingConfig = integration.configuration as any;
-    const decryptedConfig: any = {};
-
     // Decrypt existing sensitive data
-    Object.keys(existingConfig).forEach(key => {
-      if (key.includes('Token') || key.includes('Secret') || key.includes('Password') || key.includes('Key')) {
-        decryptedConfig[key] = decryptData(existingConfig[key]);
-      } else {
-        decryptedConfig[key] = existingConfig[key];
-      }
-    });
+    const decryptedConfig = decryptConfiguration(integration.configuration as any);
 
     // Merge with new configuration
     const mergedConfig = { ...decryptedConfig, ...configuration };
@@ -339,7 +330,7 @@ router.put('/:id', [
     // Encrypt sensitive data again
     const encryptedConfig: any = {};
     Object.keys(mergedConfig).forEach(key => {
-      if (key.includes('Token') || key.includes('Secret') || key.includes('Password') || key.includes('Key')) {
+      if (isSensitiveField(key)) {
         encryptedConfig[key] = encryptData(mergedConfig[key]);
       } else {
         encryptedConfig[key] = mergedConfig[key];
@@ -438,16 +429,7 @@ router.post('/:id/test', [
   await checkPermission(req.user, 'read', 'integration', integration.organizationId);
 
   // Decrypt configuration
-  const config = integration.configuration as any;
-  const decryptedConfig: any = {};
-
-  Object.keys(config).forEach(key => {
-    if (key.includes('Token') || key.includes('Secret') || key.includes('Password') || key.includes('Key')) {
-      decryptedConfig[key] = decryptData(config[key]);
-    } else {
-      decryptedConfig[key] = config[key];
-    }
-  });
+  const decryptedConfig = decryptConfiguration(integration.configuration as any);
 
   try {
     const result = await testIntegrationConnection(integration.type, decryptedConfig);
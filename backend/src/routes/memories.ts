@@ -0,0 +1,118 @@
+import { Router } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { prisma } from '../database/connection';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError } from '../middleware/errorHandler';
+import { authMiddleware } from '../middleware/auth';
+import { checkPermission } from '../middleware/permissions';
+import { logger } from '../utils/logger';
+import { agentMemory } from '../services/agent-engine/memory';
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+const memoryFilterValidation = [
+  query('organizationId').isUUID(),
+  query('userKey').isString().trim().notEmpty(),
+  query('agentId').optional().isUUID(),
+];
+
+/**
+ * @route GET /api/memories
+ * @desc List what agents remember about an end user
+ * @access Private
+ */
+router.get('/', memoryFilterValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { organizationId, userKey, agentId } = req.query as Record<string, string>;
+
+  // Check permissions
+  await checkPermission(req.user, 'read', 'agent', organizationId);
+
+  const memories = await agentMemory.list({ organizationId, userKey, agentId });
+
+  res.json({
+    success: true,
+    data: { memories },
+  });
+}));
+
+/**
+ * @route DELETE /api/memories
+ * @desc Delete everything agents remember about an end user
+ * @access Private
+ */
+router.delete('/', memoryFilterValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Validation failed', 400);
+  }
+
+  const { organizationId, userKey, agentId } = req.query as Record<string, string>;
+
+  // Check permissions
+  await checkPermission(req.user, 'delete', 'agent', organizationId);
+
+  const deleted = await agentMemory.forget({ organizationId, userKey, agentId });
+
+  logger.info(`Memories of ${userKey} deleted by user: ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Memories deleted successfully',
+    data: { deleted },
+  });
+}));
+
+/**
+ * @route DELETE /api/memories/:id
+ * @desc Delete a single memory
+ * @access Private
+ */
+router.delete('/:id', [
+  param('id').isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError('Invalid memory ID', 400);
+  }
+
+  const { id } = req.params;
+
+  const memory = await prisma.agentMemory.findUnique({
+    where: { id },
+    include: {
+      agent: {
+        select: {
+          organizationId: true,
+        },
+      },
+    },
+  });
+
+  if (!memory) {
+    throw new AppError('Memory not found', 404);
+  }
+
+  // Check permissions
+  await checkPermission(req.user, 'delete', 'agent', memory.agent.organizationId);
+
+  await prisma.agentMemory.delete({
+    where: { id },
+  });
+
+  logger.info(`Memory deleted: ${id} by user: ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Memory deleted successfully',
+  });
+}));
+
+export default router;
\ No newline at end of file
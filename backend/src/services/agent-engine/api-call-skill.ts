@@ -0,0 +1,197 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { prisma } from '../../database/connection';
+import { decryptConfiguration } from '../../utils/encryption';
+import { logger } from '../../utils/logger';
+
+const MAX_TIMEOUT_MS = 30000;
+
+/**
+ * Configuration of an API_CALL skill.
+ *
+ * String values may contain {{params.<name>}} placeholders for arguments chosen
+ * by the model and {{secrets.<field>}} placeholders for fields of the linked
+ * integration, which are decrypted only when the request is made.
+ */
+export const apiCallConfigSchema = z.object({
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('GET'),
+  url: z.string().regex(/^https?:\/\//, 'URL template must start with http:// or https://'),
+  headers: z.record(z.string()).default({}),
+  body: z.any().optional(),
+  parameters: z.object({
+    type: z.literal('object'),
+    properties: z.record(z.any()).default({}),
+    required: z.array(z.string()).optional(),
+  }).default({ type: 'object', properties: {} }),
+  integrationId: z.string().uuid().optional(),
+  responsePath: z.string().regex(/^\$/, 'Response path must start with $').optional(),
+  timeoutMs: z.number().int().positive().max(MAX_TIMEOUT_MS).default(10000),
+});
+
+export type ApiCallConfig = z.infer<typeof apiCallConfigSchema>;
+
+interface TemplateValues {
+  params: Record<string, any>;
+  secrets: Record<string, any>;
+}
+
+const PLACEHOLDER_REGEX = /\{\{\s*(params|secrets)\.([\w.]+)\s*\}\}/g;
+const EXACT_PLACEHOLDER_REGEX = /^\{\{\s*(params|secrets)\.([\w.]+)\s*\}\}$/;
+
+/**
+ * Run an API_CALL skill and return the (optionally extracted) response
+ */
+export async function runApiCallSkill(
+  configuration: unknown,
+  parameters: Record<string, any>,
+  organizationId: string
+): Promise<any> {
+  const parsed = apiCallConfigSchema.safeParse(configuration);
+  if (!parsed.success) {
+    throw new Error(`Invalid API_CALL configuration: ${parsed.error.issues.map(i => i.message).join(', ')}`);
+  }
+  const config = parsed.data;
+
+  for (const field of config.parameters.required || []) {
+    if (parameters[field] === undefined || parameters[field] === null) {
+      throw new Error(`Missing required parameter: ${field}`);
+    }
+  }
+
+  const values: TemplateValues = {
+    params: parameters,
+    secrets: config.integrationId
+      ? await loadIntegrationSecrets(config.integrationId, organizationId)
+      : {},
+  };
+
+  const url = renderString(config.url, values, encodeURIComponent);
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(config.headers)) {
+    headers[name] = renderString(value, values);
+  }
+
+  logger.info('Running API_CALL skill', { method: config.method, url: config.url });
+
+  const response = await axios.request({
+    method: config.method,
+    url,
+    headers,
+    data: config.body !== undefined ? renderValue(config.body, values) : undefined,
+    timeout: config.timeoutMs,
+  });
+
+  return config.responsePath
+    ? extractJsonPath(response.data, config.responsePath)
+    : response.data;
+}
+
+/**
+ * Load and decrypt the configuration of an integration owned by the organization
+ */
+async function loadIntegrationSecrets(
+  integrationId: string,
+  organizationId: string
+): Promise<Record<string, any>> {
+  const integration = await prisma.integration.findFirst({
+    where: { id: integrationId, organizationId, isActive: true },
+  });
+
+  if (!integration) {
+    throw new Error(`Integration ${integrationId} not found for this organization`);
+  }
+
+  return decryptConfiguration(integration.configuration as Record<string, any>);
+}
+
+/**
+ * Look up a dotted path such as "order.id" in the template values
+ */
+function lookup(values: TemplateValues, scope: string, path: string): any {
+  return path.split('.').reduce(
+    (value: any, key) => (value === undefined || value === null ? undefined : value[key]),
+    values[scope as keyof TemplateValues]
+  );
+}
+
+/**
+ * Replace placeholders inside a string
+ */
+function renderString(
+  template: string,
+  values: TemplateValues,
+  encode: (value: string) => string = value => value
+): string {
+  return template.replace(PLACEHOLDER_REGEX, (_, scope, path) => {
+    const value = lookup(values, scope, path);
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return encode(typeof value === 'object' ? JSON.stringify(value) : String(value));
+  });
+}
+
+/**
+ * Render a JSON body template. A string that is exactly one placeholder keeps
+ * the type of the substituted value (number, object, ...).
+ */
+function renderValue(template: any, values: TemplateValues): any {
+  if (typeof template === 'string') {
+    const exact = template.match(EXACT_PLACEHOLDER_REGEX);
+    return exact ? lookup(values, exact[1], exact[2]) : renderString(template, values);
+  }
+
+  if (Array.isArray(template)) {
+    return template.map(item => renderValue(item, values));
+  }
+
+  if (template && typeof template === 'object') {
+    const rendered: Record<string, any> = {};
+    for (const [key, value] of Object.entries(template)) {
+      rendered[key] = renderValue(value, values);
+    }
+    return rendered;
+  }
+
+  return template;
+}
+
+/**
+ * Extract a value with a JSONPath subset: $.a.b, $.items[0].name, $.items[*].name
+ */
+export function extractJsonPath(data: any, path: string): any {
+  const segments = path
+    .replace(/^\$/, '')
+    .split(/\.|(?=\[)/)
+    .filter(segment => segment.length > 0);
+
+  let current: any[] = [data];
+  let isList = false;
+
+  for (const segment of segments) {
+    const next: any[] = [];
+    const index = segment.match(/^\[(\d+|\*)\]$/);
+
+    for (const item of current) {
+      if (item === undefined || item === null) {
+        continue;
+      }
+      if (index && index[1] === '*') {
+        if (Array.isArray(item)) {
+          next.push(...item);
+        }
+      } else if (index) {
+        next.push(item[Number(index[1])]);
+      } else {
+        next.push(item[segment]);
+      }
+    }
+
+    if (index && index[1] === '*') {
+      isList = true;
+    }
+    current = next;
+  }
+
+  return isList ? current.filter(item => item !== undefined) : current[0];
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+export interface ConfidenceSignals {
+  content: string;
+  retrievalScores: number[];
+  tokenLogprobs?: number[];
+}
+
+export interface ConfidenceResult {
+  score: number;
+  factors: {
+    retrieval: number;
+    contextFound: boolean;
+    model?: number;
+    refusal: boolean;
+    uncertainty: boolean;
+  };
+}
+
+// Score assumed for a grounded-looking answer before any evidence is applied
+const PRIOR_CONFIDENCE = 0.8;
+
+// Retrieval score used when the knowledge base returned nothing
+const NO_CONTEXT_SCORE = 0.5;
+
+const REFUSAL_PATTERNS = [
+  /אני לא יכול(?:ה)? לעזור/,
+  /אינני יכול(?:ה)?/,
+  /אין ביכולתי/,
+  /אין לי (?:מידע|גישה)/,
+  /לא מצאתי מידע/,
+  /I (?:can(?:no|')t|am unable to|'m unable to) (?:help|assist|answer|provide)/i,
+  /I (?:don't|do not) have (?:any )?(?:information|access)/i,
+  /as an AI(?: language model)?/i,
+];
+
+const UNCERTAINTY_PATTERNS = [
+  /אני לא (?:בטוח|בטוחה)/,
+  /אינני (?:בטוח|בטוחה)/,
+  /(?:אני )?לא יודע(?:ת)?/,
+  /(?:ייתכן|יתכן) ש|ככל הנראה/,
+  /I(?:'m| am) not (?:sure|certain)/i,
+  /I (?:don't|do not) know/i,
+  /\bI (?:think|believe|guess)\b/i,
+];
+
+/**
+ * Combine retrieval quality, model token probabilities and hedging language
+ * into a 0-1 confidence score
+ */
+export function scoreConfidence(signals: ConfidenceSignals): ConfidenceResult {
+  const contextFound = signals.retrievalScores.length > 0;
+  const retrieval = contextFound
+    ? clamp(Math.max(...signals.retrievalScores))
+    : NO_CONTEXT_SCORE;
+
+  // Geometric mean of token probabilities
+  const model = signals.tokenLogprobs && signals.tokenLogprobs.length > 0
+    ? clamp(Math.exp(signals.tokenLogprobs.reduce((sum, lp) => sum + lp, 0) / signals.tokenLogprobs.length))
+    : undefined;
+
+  const components = [
+    { value: PRIOR_CONFIDENCE, weight: 0.3 },
+    { value: retrieval, weight: 0.3 },
+  ];
+  if (model !== undefined) {
+    components.push({ value: model, weight: 0.4 });
+  }
+
+  let score = components.reduce((sum, c) => sum + c.value * c.weight, 0) /
+    components.reduce((sum, c) => sum + c.weight, 0);
+
+  const refusal = REFUSAL_PATTERNS.some(pattern => pattern.test(signals.content));
+  const uncertainty = !refusal && UNCERTAINTY_PATTERNS.some(pattern => pattern.test(signals.content));
+
+  if (refusal) {
+    score *= 0.4;
+  } else if (uncertainty) {
+    score *= 0.7;
+  }
+
+  return {
+    score: Math.round(clamp(score) * 100) / 100,
+    factors: {
+      retrieval: Math.round(retrieval * 100) / 100,
+      contextFound,
+      model: model !== undefined ? Math.round(model * 100) / 100 : undefined,
+      refusal,
+      uncertainty,
+    },
+  };
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
\ No newline at end of file
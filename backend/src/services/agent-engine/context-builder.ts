@@ -0,0 +1,116 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import { Message } from '@prisma/client';
+
+export interface ConversationSummary {
+  text: string;
+  upToMessageId: string;
+  upToCreatedAt: string;
+  updatedAt: string;
+}
+
+export interface ContextBudgetInput {
+  systemPrompt: string;
+  knowledge: string[];
+  history: Message[];
+  summary?: ConversationSummary;
+  userInput: string;
+  contextWindow: number;
+  maxTokens: number;
+}
+
+export interface ContextPlan {
+  systemPrompt: string;
+  history: Message[];
+  overflow: Message[];
+  knowledgeUsed: number;
+  tokenCount: number;
+}
+
+// Tokens added by the chat format around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Tokens kept free so provider-side counting differences never overflow the window
+const SAFETY_MARGIN_TOKENS = 256;
+
+// Share of the remaining input budget the knowledge base may use
+const KNOWLEDGE_BUDGET_SHARE = 0.3;
+
+let encoding: Tiktoken | undefined;
+
+/**
+ * Count tokens with the cl100k_base encoding. Other providers tokenize
+ * differently, which the safety margin absorbs.
+ */
+export function countTokens(text: string): number {
+  if (!encoding) {
+    encoding = getEncoding('cl100k_base');
+  }
+  return encoding.encode(text).length + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Read the rolling conversation summary stored in Conversation.metadata
+ */
+export function getConversationSummary(metadata: unknown): ConversationSummary | undefined {
+  const summary = (metadata as Record<string, any> | null)?.summary;
+  return summary && typeof summary.text === 'string' ? summary : undefined;
+}
+
+/**
+ * Fit the system prompt, knowledge base context, summary and history into the
+ * model's context window. History is kept newest-first; older messages that do
+ * not fit are returned as overflow so they can be summarized.
+ */
+export function planContext(input: ContextBudgetInput): ContextPlan {
+  const completionReserve = Math.min(input.maxTokens, Math.floor(input.contextWindow / 2));
+  let remaining = input.contextWindow - completionReserve - SAFETY_MARGIN_TOKENS;
+
+  remaining -= countTokens(input.userInput);
+
+  // Conversation summary
+  let systemPrompt = input.systemPrompt;
+  if (input.summary) {
+    systemPrompt += `\n\nסיכום השיחה עד כה:\n${input.summary.text}`;
+  }
+  remaining -= countTokens(systemPrompt);
+
+  // Knowledge base context, most relevant first
+  const knowledgeHeader = '\n\nמידע רלוונטי מבסיס הידע:\n';
+  let knowledgeBudget = Math.floor(Math.max(remaining, 0) * KNOWLEDGE_BUDGET_SHARE) - countTokens(knowledgeHeader);
+  const knowledge: string[] = [];
+  for (const doc of input.knowledge) {
+    const tokens = countTokens(doc);
+    if (tokens > knowledgeBudget) {
+      break;
+    }
+    knowledge.push(doc);
+    knowledgeBudget -= tokens;
+  }
+  if (knowledge.length > 0) {
+    const section = `${knowledgeHeader}${knowledge.join('\n\n')}`;
+    systemPrompt += section;
+    remaining -= countTokens(section);
+  }
+
+  // History, newest first
+  const history: Message[] = [];
+  let index = input.history.length - 1;
+  for (; index >= 0; index--) {
+    const tokens = countTokens(input.history[index].content);
+    if (tokens > remaining) {
+      break;
+    }
+    history.unshift(input.history[index]);
+    remaining -= tokens;
+  }
+
+  const budget = input.contextWindow - completionReserve - SAFETY_MARGIN_TOKENS;
+
+  return {
+    systemPrompt,
+    history,
+    overflow: input.history.slice(0, index + 1),
+    knowledgeUsed: knowledge.length,
+    tokenCount: budget - remaining,
+  };
+}
\ No newline at end of file
@@ -1,10 +1,70 @@
-import { ChatOpenAI } from '@langchain/openai';
-import { SystemMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
+import {
+  SystemMessage,
+  HumanMessage,
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  ToolMessage
+} from '@langchain/core/messages';
 import { logger } from '../../utils/logger';
 import { hebrewNLP } from '../hebrew-nlp';
-import { vectorStore } from '../vector-store';
-import { Agent, Conversation, Message } from '@prisma/client';
+import { PIIMatch, PlaceholderCounts, countPlaceholders, restorePII } from '../hebrew-nlp/pii';
+import { encryptData } from '../../utils/encryption';
+import { vectorStore, SearchResult } from '../vector-store';
+import { Agent, AgentMemory, AgentSkill, Conversation, Message } from '@prisma/client';
 import { prisma } from '../../database/connection';
+import { ChatModel, ChatModelCallOptions, modelRegistry } from './providers';
+import { ToolCall, buildToolset, executeSkill, hasSideEffects } from './tools';
+import { ConfidenceResult, scoreConfidence } from './confidence';
+import { ConversationSummary, getConversationSummary, planContext } from './context-builder';
+import { PromptVariables, renderPrompt, resolvePromptVariables } from './prompt-template';
+import { ModelTimeoutError, withRetry } from './retry';
+import { UsageCollector, usageFromResponse, usageTracker } from '../usage';
+import { classifyIntent } from './router';
+import { agentMemory } from './memory';
+import { CacheLookup, semanticCache } from './semantic-cache';
+import { experiments } from '../experiments';
+import {
+  GuardrailConfig,
+  GuardrailPolicy,
+  GuardrailViolation,
+  checkInput,
+  checkOutput,
+  guardrailReply,
+  guardrailsOf,
+  inputGuardInstructions,
+  outputRewriteInstructions
+} from './guardrails';
+import {
+  outputSchemaInstructions,
+  parseStructuredOutput,
+  renderStructuredOutput,
+  repairInstructions
+} from './structured-output';
+
+// Maximum number of tool-call rounds before the model must answer
+const MAX_TOOL_STEPS = parseInt(process.env.AGENT_MAX_TOOL_STEPS || '5');
+
+// Length limit for rolling conversation summaries
+const SUMMARY_MAX_TOKENS = 500;
+
+// Attempts to fix a reply that does not match the agent's output schema
+const MAX_SCHEMA_REPAIRS = 2;
+
+// Time limit for a single model call, including streaming
+const MODEL_TIMEOUT_MS = parseInt(process.env.AGENT_MODEL_TIMEOUT_MS || '30000');
+
+// Reply sent when every model in the agent's fallback chain failed
+const DEFAULT_FALLBACK_MESSAGE = 'מצטערים, אנחנו חווים כרגע תקלה זמנית ולא הצלחנו לענות. אנא נסו שוב בעוד מספר דקות.';
+
+// Prompt variables that make an answer specific to one user or conversation
+const PERSONAL_VARIABLE_REGEX = /\{\{\s*(user|conversation)\./;
+
+// Confidence of replies the engine sends without a model (fallback and guardrail messages)
+const NO_CONFIDENCE: ConfidenceResult = {
+  score: 0,
+  factors: { retrieval: 0, contextFound: false, refusal: false, uncertainty: false }
+};
 
 export interface AgentContext {
   agent: Agent;
@@ -12,8 +72,76 @@ export interface AgentContext {
   history: Message[];
   userInput: string;
   metadata?: any;
+  promptVariables?: PromptVariables;
+  // Token usage of the calls made for this message, filled in by the engine
+  usage?: UsageCollector;
+  // Facts remembered about the user from earlier conversations, filled in by the engine
+  memories?: AgentMemory[];
+  // Guardrail violations in the user's message when the agent answers it anyway
+  guardrailViolations?: GuardrailViolation[];
+  // Personal details masked in userInput, filled in by the engine
+  pii?: PIIMatch[];
+  // Highest placeholder numbers used earlier in the conversation, filled in by the engine
+  piiPlaceholders?: PlaceholderCounts;
+  // Answer without storing anything, transferring or running skills, e.g. to replay a conversation
+  dryRun?: boolean;
+  // Skill results from the original conversation, returned instead of running skills in a dry run
+  recordedFunctionCalls?: FunctionCallRecord[];
+  // Skills offered instead of the agent's active ones, e.g. those of an unpublished version
+  skills?: AgentSkill[];
+}
+
+export interface StreamHandlers {
+  onToken: (token: string) => void;
+  // Called when tokens already sent must be discarded: the call is retried, or they preceded tool calls
+  onReset?: () => void;
+}
+
+export interface FunctionCallRecord {
+  toolCallId: string;
+  skillId: string;
+  name: string;
+  arguments: Record<string, any>;
+  result?: any;
+  error?: string;
+}
+
+interface ModelResult {
+  content: string;
+  functionCalls: FunctionCallRecord[];
+  tokenLogprobs?: number[];
+  // Parsed reply of agents with an output schema
+  structured?: Record<string, any>;
+}
+
+// A type alias (not an interface) so attempts can be stored in JSON metadata
+export type ModelAttempt = {
+  model: string;
+  error?: string;
+  // Names of the skills the model ran
+  functionCalls?: string[];
+};
+
+interface FallbackResult extends ModelResult {
+  // Model that produced the answer, or null when the canned message was used
+  model: string | null;
+  attempts: ModelAttempt[];
 }
 
+// What the guardrails did with a message, stored in its metadata
+export type GuardrailOutcome = {
+  action: GuardrailPolicy;
+  violations: GuardrailViolation[];
+};
+
+export type HandoffRecord = {
+  fromAgentId: string;
+  toAgentId: string;
+  toAgentName: string;
+  reason: string;
+  at: string;
+};
+
 export interface AgentResponse {
   content: string;
   confidence: number;
@@ -22,35 +150,70 @@ export interface AgentResponse {
 }
 
 export class AgentEngine {
-  private models: Map<string, ChatOpenAI>;
+  /**
+   * Process user input and generate agent response.
+   * When stream handlers are given, partial tokens are reported as they arrive.
+   */
+  async processMessage(
+    context: AgentContext,
+    stream?: StreamHandlers
+  ): Promise<AgentResponse> {
+    context = { ...context, usage: new UsageCollector() };
 
-  constructor() {
-    this.models = new Map();
-    this.initializeModels();
-  }
+    try {
+      // Conversations in an A/B experiment are answered by their variant's version.
+      // Dry runs answer with the configuration they were given.
+      if (!context.dryRun) {
+        context.agent = await experiments.agentFor(context.agent, context.conversation);
+      }
 
-  private initializeModels() {
-    // Initialize different models
-    const models = [
-      { name: 'gpt-4', temperature: 0.7 },
-      { name: 'gpt-4-turbo-preview', temperature: 0.7 },
-      { name: 'gpt-3.5-turbo', temperature: 0.7 }
-    ];
+      // Mask personal details before they reach a model or the database
+      if (context.agent.redactPii) {
+        context.piiPlaceholders = await this.placeholderCounts(context);
+        const redaction = hebrewNLP.redactPII(context.userInput, context.piiPlaceholders);
+        if (redaction.matches.length > 0) {
+          context.userInput = redaction.text;
+          context.pii = redaction.matches;
+        }
+      }
 
-    for (const model of models) {
-      this.models.set(model.name, new ChatOpenAI({
-        modelName: model.name,
-        temperature: model.temperature,
-        openAIApiKey: process.env.OPENAI_API_KEY,
-      }));
-    }
-  }
+      // Input guardrails run before any model is called
+      const guardrails = guardrailsOf(context.agent);
+      const inputViolations = guardrails ? checkInput(guardrails, context.userInput) : [];
+      if (guardrails && inputViolations.length > 0) {
+        logger.warn(`Guardrails flagged input for agent ${context.agent.id}`, { violations: inputViolations });
+        if (guardrails.policy !== 'REWRITE') {
+          return await this.respondWithGuardrail(
+            context,
+            guardrails,
+            { action: guardrails.policy, violations: inputViolations },
+            stream
+          );
+        }
+        context.guardrailViolations = inputViolations;
+      }
+
+      // Router agents hand the conversation to the agent that fits the user's intent
+      if (context.agent.type === 'ROUTER') {
+        const routed = await this.routeConversation(context);
+        if (routed) {
+          const response = await this.processMessage(routed.context, stream);
+          response.metadata = { ...response.metadata, handoff: routed.handoff };
+          return response;
+        }
+      }
+
+      // Opening questions may be answered from the semantic cache
+      const cacheLookup = this.canUseCache(context)
+        ? await semanticCache.lookup(context.agent, context.userInput, context.usage).catch(error => {
+            logger.warn(`Semantic cache unavailable for agent ${context.agent.id}`, { error: error.message });
+            return undefined;
+          })
+        : undefined;
+      if (cacheLookup?.hit) {
+        return await this.respondFromCache(context, cacheLookup, stream);
+      }
 
-  /**
-   * Process user input and generate agent response
-   */
-  async processMessage(context: AgentContext): Promise<AgentResponse> {
-    try {
       // Analyze Hebrew text
       const textAnalysis = await hebrewNLP.analyzeText(context.userInput);
       logger.info('Text analysis completed', { 
@@ -62,24 +225,102 @@ export class AgentEngine {
       // Get relevant context from knowledge base
       const relevantDocs = await this.getRelevantContext(
         context.agent.id,
-        textAnalysis.normalizedText
+        textAnalysis.matchKey,
+        context.usage
+      );
+
+      // Load what the agent remembers about this user
+      context.memories = await agentMemory.recall(context.agent, context.conversation);
+
+      // Get model response, falling back along the agent's model chain
+      const generated = await this.generateWithFallback(
+        context,
+        textAnalysis,
+        relevantDocs.map(doc => doc.pageContent),
+        stream
       );
 
-      // Build conversation messages
-      const messages = this.buildMessages(context, textAnalysis, relevantDocs);
+      // Output guardrails may rewrite or replace the reply
+      const { result, outcome } = guardrails
+        ? await this.enforceOutputGuardrails(context, guardrails, generated, stream)
+        : { result: generated, outcome: undefined };
+      const { content, functionCalls, tokenLogprobs } = result;
 
-      // Get model response
-      const model = this.models.get(context.agent.model) || this.models.get('gpt-4')!;
-      const response = await model.invoke(messages);
+      // Agents with an output schema answer with JSON; users see a readable rendering
+      const outputSchema = context.agent.outputSchema as Record<string, any> | null;
+      const renderedText = result.structured
+        ? renderStructuredOutput(result.structured, outputSchema || {})
+        : content;
+      // Placeholders the model repeated go back to the user's own details; the stored copy is masked again
+      const replyText = context.pii ? restorePII(renderedText, context.pii) : renderedText;
+
+      // Score how much the answer can be trusted. Canned messages have none.
+      const blocked = outcome !== undefined && outcome.action !== 'REWRITE';
+      const confidence: ConfidenceResult = result.model && !blocked
+        ? scoreConfidence({
+            content,
+            retrievalScores: relevantDocs.map(doc => doc.score),
+            tokenLogprobs
+          })
+        : NO_CONFIDENCE;
 
       // Post-process response
       const processedResponse = await this.postProcessResponse(
-        response.content.toString(),
-        textAnalysis.isHebrew
+        replyText,
+        textAnalysis.isHebrew,
+        confidence
       );
 
+      if (result.structured) {
+        processedResponse.metadata.structuredOutput = result.structured;
+      }
+
+      const guardrailOutcome: GuardrailOutcome | undefined = outcome || (inputViolations.length > 0
+        ? { action: 'REWRITE', violations: inputViolations }
+        : undefined);
+      if (guardrailOutcome) {
+        processedResponse.metadata.guardrails = guardrailOutcome;
+      }
+
+      const threshold = context.agent.confidenceThreshold;
+      if (cacheLookup) {
+        processedResponse.metadata.cache = { hit: false, similarity: Math.round(cacheLookup.similarity * 1000) / 1000 };
+      }
+
       // Save message to database
-      await this.saveMessages(context, processedResponse.content);
+      const messageId = await this.saveMessages(context, processedResponse, functionCalls, result);
+
+      // Only confident, generic answers are reused: nothing from skills, memories or guardrails
+      const reusable = result.model && functionCalls.length === 0 && !guardrailOutcome &&
+        !context.memories?.length && (threshold === null || confidence.score >= threshold);
+      if (cacheLookup && reusable) {
+        await semanticCache.store(cacheLookup, {
+          question: context.userInput,
+          content: processedResponse.content,
+          confidence: processedResponse.confidence,
+          suggestedActions: processedResponse.suggestedActions,
+          model: result.model!,
+          messageId,
+          createdAt: new Date().toISOString()
+        });
+      }
+
+      if (outcome?.action === 'ESCALATE') {
+        // Hand the conversation to a human when the reply broke the agent's guardrails
+        await this.transferToHuman(context, 'guardrails', 'השיחה הועברה לנציג אנושי: התשובה הפרה את כללי הסוכן', {
+          violations: outcome.violations
+        });
+        processedResponse.metadata.transferred = true;
+        processedResponse.metadata.transferReason = 'guardrails';
+      } else if (!blocked && threshold !== null && confidence.score < threshold) {
+        // Hand the conversation to a human when the agent is not confident enough
+        await this.transferToHuman(context, 'low_confidence', 'השיחה הועברה לנציג אנושי: רמת הביטחון בתשובה נמוכה', {
+          confidence: confidence.score,
+          confidenceThreshold: threshold
+        });
+        processedResponse.metadata.transferred = true;
+        processedResponse.metadata.transferReason = 'low_confidence';
+      }
 
       return processedResponse;
     } catch (error) {
@@ -88,22 +329,263 @@ export class AgentEngine {
     }
   }
 
+  /**
+   * Try the agent's model, then each fallback model in order. When all of
+   * them fail the agent's canned fallback message is returned. Once a model
+   * that failed has run a skill with side effects, no other model is tried,
+   * so the skill does not run twice.
+   */
+  private async generateWithFallback(
+    context: AgentContext,
+    textAnalysis: any,
+    relevantDocs: string[],
+    stream?: StreamHandlers
+  ): Promise<FallbackResult> {
+    const chain = [context.agent.model, ...context.agent.fallbackModels];
+    const attempts: ModelAttempt[] = [];
+    // Skills run by failed attempts, saved with the reply
+    const executed: FunctionCallRecord[] = [];
+
+    // JSON replies are not streamed token by token
+    const tokenStream = context.agent.outputSchema ? undefined : stream;
+
+    for (const modelName of chain) {
+      const functionCalls: FunctionCallRecord[] = [];
+      let skills: AgentSkill[] = [];
+
+      try {
+        // Context is planned per model, as context windows differ
+        const messages = await this.buildMessages(context, textAnalysis, relevantDocs, modelName);
+        const model = modelRegistry.getChatModel(modelName, {
+          temperature: context.agent.temperature,
+          maxTokens: context.agent.maxTokens
+        });
+        if (modelRegistry.resolve(modelName).supportsTools) {
+          skills = context.skills || await prisma.agentSkill.findMany({
+            where: { agentId: context.agent.id, isActive: true }
+          });
+        }
+
+        const result = await this.generateResponse(
+          context, model, modelName, messages, skills, functionCalls, tokenStream
+        );
+        attempts.push({ model: modelName, ...this.attemptCalls(functionCalls) });
+
+        return { ...result, functionCalls: [...executed, ...functionCalls], model: modelName, attempts };
+      } catch (error: any) {
+        logger.warn(`Model ${modelName} failed for agent ${context.agent.id}`, { error: error.message });
+        attempts.push({ model: modelName, error: error.message, ...this.attemptCalls(functionCalls) });
+        executed.push(...functionCalls);
+
+        const sideEffects = functionCalls.some(call =>
+          skills.some(skill => skill.id === call.skillId && hasSideEffects(skill))
+        );
+        if (sideEffects) {
+          logger.error(`Model ${modelName} failed after running skills with side effects, not trying other models`, {
+            agentId: context.agent.id,
+            functionCalls: functionCalls.map(call => call.name)
+          });
+          break;
+        }
+      }
+    }
+
+    logger.error(`All models failed for agent ${context.agent.id}, sending fallback message`, { attempts });
+
+    const content = context.agent.fallbackMessage || DEFAULT_FALLBACK_MESSAGE;
+    stream?.onToken(content);
+
+    return { content, functionCalls: executed, model: null, attempts };
+  }
+
+  /**
+   * Skills run during a model attempt, recorded with the attempt
+   */
+  private attemptCalls(functionCalls: FunctionCallRecord[]): Pick<ModelAttempt, 'functionCalls'> {
+    return functionCalls.length > 0 ? { functionCalls: functionCalls.map(call => call.name) } : {};
+  }
+
+  /**
+   * Run the model with the agent's skills as tools, executing requested
+   * tool calls and feeding their results back until the model answers.
+   * Executed calls are added to functionCalls as they run, so they are
+   * known even when the model fails later.
+   * Replies that do not match the agent's output schema are sent back for repair.
+   */
+  private async generateResponse(
+    context: AgentContext,
+    model: ChatModel,
+    modelName: string,
+    messages: BaseMessage[],
+    skills: AgentSkill[],
+    functionCalls: FunctionCallRecord[],
+    stream?: StreamHandlers
+  ): Promise<ModelResult> {
+    const toolset = buildToolset(skills);
+    const outputSchema = context.agent.outputSchema as Record<string, any> | null;
+    const jsonMode = !!outputSchema && modelRegistry.resolve(modelName).supportsJsonMode;
+    let repairs = 0;
+
+    for (let step = 0; ; step++) {
+      const tools = step < MAX_TOOL_STEPS && toolset.definitions.length > 0
+        ? toolset.definitions
+        : undefined;
+      const options: ChatModelCallOptions = {
+        tools,
+        ...(jsonMode && { response_format: { type: 'json_object' } })
+      };
+
+      const response = await withRetry(
+        () => this.callModel(model, modelName, messages, options, stream)
+      );
+      context.usage?.add('CHAT', modelName, usageFromResponse(response, messages, tools));
+      const toolCalls = tools ? this.parseToolCalls(response) : [];
+
+      if (toolCalls.length === 0) {
+        const content = response.content.toString();
+        if (!outputSchema) {
+          return { content, functionCalls, tokenLogprobs: this.parseLogprobs(response) };
+        }
+
+        const parsed = parseStructuredOutput(content, outputSchema);
+        if (parsed.value) {
+          return {
+            content,
+            functionCalls,
+            tokenLogprobs: this.parseLogprobs(response),
+            structured: parsed.value
+          };
+        }
+
+        if (repairs++ >= MAX_SCHEMA_REPAIRS) {
+          throw new Error(`Reply does not match the output schema: ${parsed.errors.join('; ')}`);
+        }
+        logger.warn(`Reply from ${modelName} does not match the output schema, asking for repair`, {
+          errors: parsed.errors
+        });
+        messages.push(response, new HumanMessage(repairInstructions(parsed.errors)));
+        continue;
+      }
+
+      // Text streamed before the tool calls is not part of the reply
+      if (stream && response.content.toString()) {
+        stream.onReset?.();
+      }
+
+      messages.push(response);
+
+      for (const call of toolCalls) {
+        const skill = toolset.skillsByName.get(call.name);
+        const record: FunctionCallRecord = {
+          toolCallId: call.id,
+          skillId: skill?.id || '',
+          name: call.name,
+          arguments: call.arguments
+        };
+
+        try {
+          if (!skill) {
+            throw new Error(`Unknown function: ${call.name}`);
+          }
+          record.result = await this.handleFunctionCall(context, skill, call.arguments);
+        } catch (error: any) {
+          logger.error(`Function call ${call.name} failed:`, error);
+          record.error = error.message;
+        }
+
+        functionCalls.push(record);
+        messages.push(new ToolMessage(
+          JSON.stringify(record.error ? { error: record.error } : record.result ?? null),
+          call.id,
+          call.name
+        ));
+      }
+    }
+  }
+
+  /**
+   * Call the model once within the time limit, streaming tokens to the
+   * handlers when provided
+   */
+  private async callModel(
+    model: ChatModel,
+    modelName: string,
+    messages: BaseMessage[],
+    options: ChatModelCallOptions,
+    stream?: StreamHandlers
+  ): Promise<BaseMessage> {
+    const signal = AbortSignal.timeout(MODEL_TIMEOUT_MS);
+    let streamed = false;
+
+    try {
+      if (!stream) {
+        return await model.invoke(messages, { ...options, signal });
+      }
+
+      let response: AIMessageChunk | undefined;
+      for await (const chunk of await model.stream(messages, { ...options, signal })) {
+        const token = chunk.content.toString();
+        if (token) {
+          streamed = true;
+          stream.onToken(token);
+        }
+        response = response ? response.concat(chunk) : chunk;
+      }
+
+      return response || new AIMessage('');
+    } catch (error) {
+      // Partial output is discarded before the call is retried or another model answers
+      if (streamed) {
+        stream?.onReset?.();
+      }
+      throw signal.aborted ? new ModelTimeoutError(modelName, MODEL_TIMEOUT_MS) : error;
+    }
+  }
+
+  /**
+   * Read tool calls from a model response
+   */
+  private parseToolCalls(response: BaseMessage): ToolCall[] {
+    const toolCalls: any[] = response.additional_kwargs.tool_calls || [];
+
+    return toolCalls.map(call => {
+      let args: Record<string, any> = {};
+      try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch (error) {
+        logger.warn(`Invalid arguments for function ${call.function.name}`);
+      }
+      return { id: call.id, name: call.function.name, arguments: args };
+    });
+  }
+
+  /**
+   * Read token log probabilities from a model response, when the provider returns them
+   */
+  private parseLogprobs(response: BaseMessage): number[] | undefined {
+    const tokens: any[] | undefined = response.response_metadata?.logprobs?.content;
+    if (!tokens || tokens.length === 0) {
+      return undefined;
+    }
+    return tokens.map(token => token.logprob);
+  }
+
   /**
    * Get relevant context from knowledge base
    */
   private async getRelevantContext(
     agentId: string,
     query: string,
+    usage?: UsageCollector,
     limit: number = 5
-  ): Promise<string[]> {
+  ): Promise<SearchResult[]> {
     try {
-      const results = await vectorStore.similaritySearch(
+      return await vectorStore.similaritySearch(
         query,
         limit,
-        { agentId }
+        { agentId },
+        usage
       );
-
-      return results.map(doc => doc.pageContent);
     } catch (error) {
       logger.error('Failed to get relevant context:', error);
       return [];
@@ -111,35 +593,83 @@ export class AgentEngine {
   }
 
   /**
-   * Build messages for LLM
+   * Build messages for LLM within the model's token budget.
+   * History that no longer fits is folded into a rolling summary.
    */
-  private buildMessages(
+  private async buildMessages(
     context: AgentContext,
     textAnalysis: any,
-    relevantDocs: string[]
-  ): (SystemMessage | HumanMessage | AIMessage)[] {
-    const messages: (SystemMessage | HumanMessage | AIMessage)[] = [];
-
-    // System message with agent prompt
-    let systemPrompt = context.agent.prompt;
+    relevantDocs: string[],
+    modelName: string
+  ): Promise<BaseMessage[]> {
+    // System message with agent prompt, variables resolved for this conversation
+    const variables = await resolvePromptVariables(
+      context.agent,
+      context.conversation,
+      context.promptVariables
+    );
+    let systemPrompt = renderPrompt(context.agent.prompt, variables);
     
     // Add Hebrew-specific instructions
     if (textAnalysis.isHebrew) {
       systemPrompt += `\n\nחשוב: המשתמש כותב בעברית. יש להשיב בעברית תקנית וברורה. שים לב לדקדוק נכון ולשימוש בסימני פיסוק מתאימים.`;
     }
 
-    // Add relevant context
-    if (relevantDocs.length > 0) {
-      systemPrompt += `\n\nמידע רלוונטי מבסיס הידע:\n${relevantDocs.join('\n\n')}`;
+    systemPrompt += agentMemory.promptSection(context.memories || []);
+
+    if (context.pii) {
+      systemPrompt += '\n\nפרטים אישיים בהודעת המשתמש הוסתרו והוחלפו בסימונים כמו [PHONE_1]. אל תבקש מהמשתמש לחזור עליהם ואל תציג את הסימונים בתשובה.';
+      if (context.agent.keepPiiOriginal) {
+        systemPrompt += ' כשפונקציה צריכה את הפרט, העבר את הסימון כפי שהוא.';
+      }
+    }
+
+    // Flagged messages answered under the REWRITE policy
+    systemPrompt += inputGuardInstructions(context.guardrailViolations || []);
+
+    if (context.agent.outputSchema) {
+      systemPrompt += outputSchemaInstructions(context.agent.outputSchema as Record<string, any>);
+    }
+
+    // Messages already covered by the stored summary are not sent again
+    let summary = getConversationSummary(context.conversation.metadata);
+    const history = context.history.filter(msg =>
+      (msg.role === 'USER' || msg.role === 'ASSISTANT') &&
+      (!summary || msg.createdAt.toISOString() > summary.upToCreatedAt)
+    );
+
+    const budget = {
+      systemPrompt,
+      knowledge: relevantDocs,
+      userInput: context.userInput,
+      contextWindow: modelRegistry.resolve(modelName).contextWindow,
+      maxTokens: context.agent.maxTokens
+    };
+
+    let plan = planContext({ ...budget, history, summary });
+
+    if (plan.overflow.length > 0) {
+      const updated = await this.summarizeHistory(context, modelName, summary, plan.overflow);
+      if (updated) {
+        summary = updated;
+        plan = planContext({ ...budget, history: plan.history, summary });
+      }
     }
 
-    messages.push(new SystemMessage(systemPrompt));
+    logger.debug('Context built', {
+      tokens: plan.tokenCount,
+      historyMessages: plan.history.length,
+      summarizedMessages: plan.overflow.length,
+      knowledgeDocs: plan.knowledgeUsed
+    });
+
+    const messages: BaseMessage[] = [new SystemMessage(plan.systemPrompt)];
 
     // Add conversation history
-    for (const msg of context.history.slice(-10)) { // Last 10 messages
+    for (const msg of plan.history) {
       if (msg.role === 'USER') {
         messages.push(new HumanMessage(msg.content));
-      } else if (msg.role === 'ASSISTANT') {
+      } else {
         messages.push(new AIMessage(msg.content));
       }
     }
@@ -150,12 +680,73 @@ export class AgentEngine {
     return messages;
   }
 
+  /**
+   * Fold messages that overflowed the context window into the conversation
+   * summary and store it in Conversation.metadata for later turns
+   */
+  private async summarizeHistory(
+    context: AgentContext,
+    modelName: string,
+    previous: ConversationSummary | undefined,
+    overflow: Message[]
+  ): Promise<ConversationSummary | undefined> {
+    try {
+      const model = modelRegistry.getChatModel(modelName, {
+        temperature: 0,
+        maxTokens: SUMMARY_MAX_TOKENS
+      });
+
+      const transcript = overflow
+        .map(msg => `${msg.role === 'USER' ? 'משתמש' : 'סוכן'}: ${msg.content}`)
+        .join('\n');
+
+      const prompt = [
+        new SystemMessage(
+          'סכם את השיחה בין המשתמש לסוכן בקצרה, בשפת השיחה. ' +
+          'שמור עובדות, בקשות פתוחות, פרטים שהמשתמש מסר והחלטות שהתקבלו. ' +
+          'אם קיים סיכום קודם, שלב אותו בסיכום החדש.'
+        ),
+        new HumanMessage(
+          `${previous ? `סיכום קודם:\n${previous.text}\n\n` : ''}הודעות חדשות לסיכום:\n${transcript}`
+        )
+      ];
+      const response = await model.invoke(prompt);
+      context.usage?.add('SUMMARY', modelName, usageFromResponse(response, prompt));
+
+      const last = overflow[overflow.length - 1];
+      const summary: ConversationSummary = {
+        text: response.content.toString().trim(),
+        upToMessageId: last.id,
+        upToCreatedAt: last.createdAt.toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+
+      const metadata = {
+        ...(context.conversation.metadata as Record<string, any> || {}),
+        summary
+      };
+      if (!context.dryRun) {
+        await prisma.conversation.update({
+          where: { id: context.conversation.id },
+          data: { metadata: metadata as any }
+        });
+      }
+      context.conversation.metadata = metadata as any;
+
+      return summary;
+    } catch (error) {
+      logger.error('Failed to summarize conversation history:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Post-process agent response
    */
   private async postProcessResponse(
     content: string,
-    isHebrew: boolean
+    isHebrew: boolean,
+    confidence: ConfidenceResult
   ): Promise<AgentResponse> {
     let processedContent = content;
 
@@ -164,9 +755,8 @@ export class AgentEngine {
       // Fix RTL issues
       processedContent = this.fixRTLFormatting(processedContent);
       
-      // Ensure proper Hebrew formatting
-      const hebrewAnalysis = await hebrewNLP.analyzeText(processedContent);
-      processedContent = hebrewAnalysis.normalizedText;
+      // Tidy spacing and quotation marks; the wording and nikud stay as the model wrote them
+      processedContent = hebrewNLP.normalizeTypography(processedContent);
     }
 
     // Extract suggested actions
@@ -174,10 +764,11 @@ export class AgentEngine {
 
     return {
       content: processedContent,
-      confidence: 0.95, // Calculate based on model response
+      confidence: confidence.score,
       suggestedActions,
       metadata: {
         language: isHebrew ? 'he' : 'en',
+        confidenceFactors: confidence.factors,
         processedAt: new Date().toISOString()
       }
     };
@@ -223,57 +814,494 @@ export class AgentEngine {
    */
   private async saveMessages(
     context: AgentContext,
-    assistantContent: string
-  ): Promise<void> {
+    response: AgentResponse,
+    functionCalls: FunctionCallRecord[],
+    result: FallbackResult
+  ): Promise<string | undefined> {
+    // Dry runs store no messages. The calls still cost, so usage is recorded outside the
+    // conversation and reported with the reply.
+    if (context.dryRun) {
+      await usageTracker.record(context.usage?.entries || [], {
+        organizationId: context.agent.organizationId,
+        agentId: context.agent.id
+      });
+      response.metadata.usage = context.usage?.totals();
+      return undefined;
+    }
+
     try {
       // Save user message
       await prisma.message.create({
         data: {
           conversationId: context.conversation.id,
+          agentId: context.agent.id,
           role: 'USER',
           content: context.userInput,
-          metadata: context.metadata
+          // Agents that need the masked details keep them encrypted
+          encryptedOriginal: context.pii && context.agent.keepPiiOriginal
+            ? encryptData(restorePII(context.userInput, context.pii))
+            : undefined,
+          metadata: context.pii
+            ? { ...context.metadata, redactedPii: context.pii.map(match => match.type) }
+            : context.metadata
         }
       });
 
+      // Save function calls made while answering
+      for (const call of functionCalls) {
+        await prisma.message.create({
+          data: {
+            conversationId: context.conversation.id,
+            agentId: context.agent.id,
+            role: 'FUNCTION',
+            content: JSON.stringify(call.error ? { error: call.error } : call.result ?? null),
+            metadata: {
+              toolCallId: call.toolCallId,
+              skillId: call.skillId,
+              name: call.name,
+              arguments: call.arguments,
+              failed: !!call.error
+            }
+          }
+        });
+      }
+
       // Save assistant message
-      await prisma.message.create({
+      const usage = context.usage?.totals();
+      const assistantMessage = await prisma.message.create({
         data: {
           conversationId: context.conversation.id,
+          agentId: context.agent.id,
           role: 'ASSISTANT',
-          content: assistantContent,
+          ...this.redactForStorage(context, response.content),
           metadata: {
-            model: context.agent.model,
-            agentId: context.agent.id
+            confidence: response.confidence,
+            // Model that actually answered; null when the canned fallback message was sent
+            model: result.model,
+            provider: result.model ? modelRegistry.resolve(result.model).provider : null,
+            requestedModel: context.agent.model,
+            // Another model or the canned message answered because a model failed
+            fallbackUsed: result.attempts.some(attempt => attempt.error),
+            modelAttempts: result.attempts,
+            agentVersion: context.agent.publishedVersion,
+            agentId: context.agent.id,
+            functionCalls: functionCalls.map(call => call.name),
+            structuredOutput: result.structured,
+            guardrails: response.metadata?.guardrails,
+            cache: response.metadata?.cache,
+            usage
           }
         }
       });
+
+      // Usage of every call made for this message, for analytics and billing
+      await usageTracker.record(context.usage?.entries || [], {
+        organizationId: context.agent.organizationId,
+        agentId: context.agent.id,
+        conversationId: context.conversation.id,
+        messageId: assistantMessage.id
+      });
+
+      return assistantMessage.id;
     } catch (error) {
       logger.error('Failed to save messages:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Placeholder numbers already used in the conversation, so details masked in
+   * different messages never share a placeholder. Dry runs read their history only.
+   */
+  private async placeholderCounts(context: AgentContext): Promise<PlaceholderCounts> {
+    if (context.dryRun) {
+      return countPlaceholders(context.history.map(message => message.content));
+    }
+
+    const messages = await prisma.message.findMany({
+      where: {
+        conversationId: context.conversation.id,
+        role: { in: ['USER', 'ASSISTANT'] },
+        content: { contains: '[' }
+      },
+      select: { content: true }
+    });
+    return countPlaceholders(messages.map(message => message.content));
+  }
+
+  /**
+   * Mask personal details in a reply before it is stored. Agents that need
+   * the details keep an encrypted original.
+   */
+  private redactForStorage(context: AgentContext, content: string): { content: string; encryptedOriginal?: string } {
+    const { agent } = context;
+    if (!agent.redactPii) {
+      return { content };
+    }
+
+    // Details from the user's message keep their placeholders
+    const redaction = hebrewNLP.redactPII(content, context.piiPlaceholders, context.pii);
+    if (redaction.matches.length === 0) {
+      return { content };
+    }
+
+    return {
+      content: redaction.text,
+      ...(agent.keepPiiOriginal && { encryptedOriginal: encryptData(content) })
+    };
+  }
+
+  /**
+   * Classify the user's intent with a router agent and, when a target agent
+   * matches, hand the conversation over to it. History stays with the conversation.
+   */
+  private async routeConversation(
+    context: AgentContext
+  ): Promise<{ context: AgentContext; handoff: HandoffRecord } | null> {
+    const router = context.agent;
+
+    try {
+      const targets = await prisma.agent.findMany({
+        where: {
+          id: { in: router.handoffAgentIds },
+          organizationId: router.organizationId,
+          type: 'STANDARD',
+          isActive: true
+        }
+      });
+
+      const decision = await classifyIntent(
+        router,
+        targets,
+        context.userInput,
+        context.history,
+        context.usage
+      );
+      if (!decision.target) {
+        return null;
+      }
+
+      const target = decision.target;
+      const handoff: HandoffRecord = {
+        fromAgentId: router.id,
+        toAgentId: target.id,
+        toAgentName: target.hebrewName || target.name,
+        reason: decision.reason,
+        at: new Date().toISOString()
+      };
+
+      // The router's classification call is billed to the router
+      await usageTracker.record(context.usage?.entries || [], {
+        organizationId: router.organizationId,
+        agentId: router.id,
+        conversationId: context.dryRun ? undefined : context.conversation.id
+      });
+
+      // Dry runs hand over in memory only
+      if (context.dryRun) {
+        return {
+          context: {
+            ...context,
+            agent: target,
+            conversation: { ...context.conversation, agentId: target.id },
+            skills: undefined
+          },
+          handoff
+        };
+      }
+
+      const metadata = (context.conversation.metadata as Record<string, any>) || {};
+      const conversation = await prisma.conversation.update({
+        where: { id: context.conversation.id },
+        data: {
+          agentId: target.id,
+          metadata: {
+            ...metadata,
+            handoffs: [...(metadata.handoffs || []), handoff]
+          }
+        }
+      });
+
+      await prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          agentId: router.id,
+          role: 'SYSTEM',
+          content: `השיחה הועברה אל ${handoff.toAgentName}`,
+          metadata: { handoff }
+        }
+      });
+
+      logger.info(`Conversation ${conversation.id} handed off from ${router.id} to ${target.id}`, {
+        reason: decision.reason
+      });
+
+      return {
+        // The target answers with its own skills
+        context: { ...context, agent: target, conversation, skills: undefined },
+        handoff
+      };
+    } catch (error) {
+      logger.error(`Routing failed for router agent ${router.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Transfer the conversation to a human agent, recording why in its metadata
+   * and in a system message
+   */
+  private async transferToHuman(
+    context: AgentContext,
+    reason: string,
+    note: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    // Dry runs only report that the conversation would be transferred
+    if (context.dryRun) {
+      return;
+    }
+
+    try {
+      await prisma.conversation.update({
+        where: { id: context.conversation.id },
+        data: {
+          status: 'TRANSFERRED',
+          metadata: {
+            ...(context.conversation.metadata as Record<string, any> || {}),
+            transferredAt: new Date().toISOString(),
+            transferReason: reason,
+            ...details
+          }
+        }
+      });
+
+      await prisma.message.create({
+        data: {
+          conversationId: context.conversation.id,
+          agentId: context.agent.id,
+          role: 'SYSTEM',
+          content: note,
+          metadata: details
+        }
+      });
+
+      logger.info(`Conversation ${context.conversation.id} transferred to a human agent`, {
+        reason,
+        ...details
+      });
+    } catch (error) {
+      logger.error(`Failed to transfer conversation ${context.conversation.id}:`, error);
     }
   }
 
   /**
-   * Handle function calls
+   * Whether the message may be answered from, and stored in, the semantic cache.
+   * Later questions in a conversation often depend on earlier turns, and
+   * personalized or structured answers are not shared between users.
+   */
+  private canUseCache(context: AgentContext): boolean {
+    const agent = context.agent;
+
+    return agent.responseCacheEnabled &&
+      !context.dryRun &&
+      !agent.outputSchema &&
+      !context.pii &&
+      !context.guardrailViolations &&
+      !PERSONAL_VARIABLE_REGEX.test(agent.prompt) &&
+      !context.history.some(msg => msg.role === 'USER');
+  }
+
+  /**
+   * Send a cached answer to a similar question, without calling a model
+   */
+  private async respondFromCache(
+    context: AgentContext,
+    lookup: CacheLookup,
+    stream?: StreamHandlers
+  ): Promise<AgentResponse> {
+    const answer = lookup.hit!;
+    stream?.onToken(answer.content);
+
+    const response: AgentResponse = {
+      content: answer.content,
+      confidence: answer.confidence,
+      suggestedActions: answer.suggestedActions,
+      metadata: {
+        language: hebrewNLP.isHebrewText(answer.content) ? 'he' : 'en',
+        processedAt: new Date().toISOString(),
+        cache: {
+          hit: true,
+          similarity: Math.round(lookup.similarity * 1000) / 1000,
+          question: answer.question,
+          sourceMessageId: answer.messageId
+        }
+      }
+    };
+
+    await this.saveMessages(context, response, [], {
+      content: answer.content,
+      functionCalls: [],
+      model: answer.model,
+      attempts: []
+    });
+
+    return response;
+  }
+
+  /**
+   * Answer a message the input guardrails rejected, without calling a model
+   */
+  private async respondWithGuardrail(
+    context: AgentContext,
+    config: GuardrailConfig,
+    outcome: GuardrailOutcome,
+    stream?: StreamHandlers
+  ): Promise<AgentResponse> {
+    const content = guardrailReply(config, outcome.action);
+    stream?.onToken(content);
+
+    const response = await this.postProcessResponse(content, hebrewNLP.isHebrewText(content), NO_CONFIDENCE);
+    response.metadata.guardrails = outcome;
+
+    await this.saveMessages(context, response, [], { content, functionCalls: [], model: null, attempts: [] });
+
+    if (outcome.action === 'ESCALATE') {
+      await this.transferToHuman(context, 'guardrails', 'השיחה הועברה לנציג אנושי: ההודעה הפרה את כללי הסוכן', {
+        violations: outcome.violations
+      });
+      response.metadata.transferred = true;
+      response.metadata.transferReason = 'guardrails';
+    }
+
+    return response;
+  }
+
+  /**
+   * Check the reply against the agent's output guardrails. Depending on the
+   * policy, a flagged reply is rewritten by the model that wrote it, or
+   * replaced with the guardrail message. A rewrite that is still flagged is blocked.
+   */
+  private async enforceOutputGuardrails(
+    context: AgentContext,
+    config: GuardrailConfig,
+    result: FallbackResult,
+    stream?: StreamHandlers
+  ): Promise<{ result: FallbackResult; outcome?: GuardrailOutcome }> {
+    if (!result.model) {
+      return { result };
+    }
+
+    const violations = [
+      ...(context.guardrailViolations || []),
+      ...checkOutput(config, result.content, context.agent.prompt)
+    ];
+    if (!violations.some(violation => violation.stage === 'OUTPUT')) {
+      return { result };
+    }
+
+    logger.warn(`Guardrails flagged a reply of agent ${context.agent.id}`, { violations });
+
+    // Only tokens of free-text replies were streamed to the client
+    const replace = (content: string) => {
+      if (stream && !context.agent.outputSchema) {
+        stream.onReset?.();
+        stream.onToken(content);
+      }
+    };
+
+    // Structured replies cannot be rewritten as text, so they are blocked instead
+    if (config.policy === 'REWRITE' && !context.agent.outputSchema) {
+      try {
+        const model = modelRegistry.getChatModel(result.model, {
+          temperature: context.agent.temperature,
+          maxTokens: context.agent.maxTokens
+        });
+        const messages = [
+          new SystemMessage(outputRewriteInstructions(violations)),
+          new HumanMessage(result.content)
+        ];
+        const response = await this.callModel(model, result.model, messages, {});
+        context.usage?.add('CHAT', result.model, usageFromResponse(response, messages));
+
+        const rewritten = response.content.toString();
+        if (checkOutput(config, rewritten, context.agent.prompt).length === 0) {
+          replace(rewritten);
+          return {
+            result: { ...result, content: rewritten, tokenLogprobs: undefined },
+            outcome: { action: 'REWRITE', violations }
+          };
+        }
+      } catch (error: any) {
+        logger.warn(`Guardrail rewrite failed for agent ${context.agent.id}`, { error: error.message });
+      }
+    }
+
+    const action: GuardrailPolicy = config.policy === 'ESCALATE' ? 'ESCALATE' : 'BLOCK';
+    const content = guardrailReply(config, action);
+    replace(content);
+
+    return {
+      result: { ...result, content, structured: undefined, tokenLogprobs: undefined },
+      outcome: { action, violations }
+    };
+  }
+
+  /**
+   * Handle function calls by running the requested skill
    */
   async handleFunctionCall(
     context: AgentContext,
-    functionName: string,
-    parameters: any
+    skill: AgentSkill,
+    parameters: Record<string, any>
   ): Promise<any> {
-    // Implement function calling logic here
-    logger.info('Function call:', { functionName, parameters });
-    
-    // Add your function implementations
-    switch (functionName) {
-      case 'search_knowledge_base':
-        return this.getRelevantContext(context.agent.id, parameters.query);
-      case 'translate':
-        return hebrewNLP.translate(parameters.text, parameters.targetLang);
-      // Add more functions as needed
-      default:
-        throw new Error(`Unknown function: ${functionName}`);
+    logger.info('Function call:', { skill: skill.name, type: skill.type, parameters });
+
+    // Dry runs do not repeat side effects: the next result recorded for the skill is returned.
+    // Without one, only skills that have no side effects run.
+    if (context.dryRun) {
+      const recorded = context.recordedFunctionCalls?.find(call => call.skillId === skill.id);
+      if (recorded) {
+        context.recordedFunctionCalls!.splice(context.recordedFunctionCalls!.indexOf(recorded), 1);
+        if (recorded.error) {
+          throw new Error(recorded.error);
+        }
+        return recorded.result;
+      }
+      if (hasSideEffects(skill)) {
+        throw new Error(`Skill ${skill.name} is not run in a dry run and has no recorded result`);
+      }
+    }
+
+    // Skills of agents that keep masked details get the real values instead of placeholders
+    if (context.pii && context.agent.keepPiiOriginal) {
+      parameters = this.restoreArguments(parameters, context.pii);
+    }
+
+    return executeSkill(skill, parameters, {
+      agentId: context.agent.id,
+      organizationId: context.agent.organizationId,
+      conversationId: context.conversation.id,
+      usage: context.usage
+    });
+  }
+
+  /**
+   * Replace PII placeholders in function call arguments with the original values
+   */
+  private restoreArguments(value: any, pii: PIIMatch[]): any {
+    if (typeof value === 'string') {
+      return restorePII(value, pii);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.restoreArguments(item, pii));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.restoreArguments(item, pii)])
+      );
     }
+    return value;
   }
 }
 
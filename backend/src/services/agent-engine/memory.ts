@@ -0,0 +1,220 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { Agent, AgentMemory, Conversation, MemoryCategory } from '@prisma/client';
+import { prisma } from '../../database/connection';
+import { logger } from '../../utils/logger';
+import { UsageCollector, usageFromResponse, usageTracker } from '../usage';
+import { modelRegistry } from './providers';
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['NAME', 'PREFERENCE', 'ORDER', 'CONTACT', 'OTHER'];
+
+// Facts kept per agent and end user; extraction is told to merge beyond this
+const MAX_MEMORIES_PER_USER = parseInt(process.env.AGENT_MEMORY_MAX_PER_USER || '30');
+
+// Longest stored fact, in characters
+const MAX_MEMORY_LENGTH = 300;
+
+// Most recent turns of a conversation read when extracting facts
+const EXTRACTION_MESSAGES = 40;
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  NAME: 'שם',
+  PREFERENCE: 'העדפה',
+  ORDER: 'הזמנה',
+  CONTACT: 'פרטי קשר',
+  OTHER: 'כללי',
+};
+
+export interface MemoryFilter {
+  organizationId: string;
+  userKey: string;
+  agentId?: string;
+}
+
+/**
+ * Identity of the end user a conversation belongs to: the channel identity,
+ * e.g. a WhatsApp phone number. The signed-in user is the operator or
+ * integration account that opened the conversation, shared by many end users,
+ * so conversations without a channel identity have no long-term memory.
+ */
+export function userKeyOf(conversation: Pick<Conversation, 'channel' | 'externalUserId'>): string | null {
+  return conversation.externalUserId ? `${conversation.channel}:${conversation.externalUserId}` : null;
+}
+
+export class AgentMemoryService {
+  /**
+   * Facts the agent remembers about the conversation's end user, oldest first
+   */
+  async recall(agent: Agent, conversation: Conversation): Promise<AgentMemory[]> {
+    const userKey = userKeyOf(conversation);
+    if (!agent.memoryEnabled || !userKey) {
+      return [];
+    }
+
+    return prisma.agentMemory.findMany({
+      where: { agentId: agent.id, userKey },
+      orderBy: { createdAt: 'asc' },
+      take: MAX_MEMORIES_PER_USER,
+    });
+  }
+
+  /**
+   * Section of the system prompt listing remembered facts
+   */
+  promptSection(memories: AgentMemory[]): string {
+    if (memories.length === 0) {
+      return '';
+    }
+
+    const facts = memories.map(memory => `- ${CATEGORY_LABELS[memory.category]}: ${memory.content}`);
+    return `\n\nמידע שנשמר על המשתמש משיחות קודמות (ייתכן שאינו עדכני, אל תציג אותו אם לא נשאלת):\n${facts.join('\n')}`;
+  }
+
+  /**
+   * Update the end user's memories from a finished conversation. The agent's
+   * model reads the transcript and the stored facts, and returns facts to add
+   * and ids of facts that are outdated or contradicted.
+   */
+  async extractFromConversation(conversationId: string): Promise<void> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: {
+        agent: true,
+        messages: {
+          where: { role: { in: ['USER', 'ASSISTANT'] } },
+          orderBy: { createdAt: 'desc' },
+          take: EXTRACTION_MESSAGES,
+        },
+      },
+    });
+
+    const userKey = conversation && userKeyOf(conversation);
+    if (!conversation || !userKey || !conversation.agent.memoryEnabled) {
+      return;
+    }
+
+    const messages = conversation.messages.reverse();
+    if (!messages.some(msg => msg.role === 'USER')) {
+      return;
+    }
+
+    const agent = conversation.agent;
+    const existing = await prisma.agentMemory.findMany({
+      where: { agentId: agent.id, userKey },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const known = existing
+      .map(memory => `${memory.id} | ${memory.category} | ${memory.content}`)
+      .join('\n');
+    const transcript = messages
+      .map(msg => `${msg.role === 'USER' ? 'משתמש' : 'סוכן'}: ${msg.content}`)
+      .join('\n');
+
+    const prompt = [
+      new SystemMessage(
+        'אתה מנהל את הזיכרון ארוך הטווח של סוכן שירות לגבי משתמש מסוים. ' +
+        'קרא את השיחה ואת העובדות השמורות, וחלץ עובדות יציבות על המשתמש שיעזרו בשיחות הבאות: ' +
+        'שם, העדפות, הזמנות או פניות פתוחות ופרטי קשר שהמשתמש מסר. ' +
+        'אל תשמור מידע רגיש (מספרי כרטיס אשראי, סיסמאות, מידע רפואי) ואל תשמור פרטים חולפים של השיחה.\n\n' +
+        `קטגוריות אפשריות: ${MEMORY_CATEGORIES.join(', ')}.\n` +
+        `שמור לכל היותר ${MAX_MEMORIES_PER_USER} עובדות בסך הכול; מזג עובדות קרובות.\n\n` +
+        'החזר JSON בלבד במבנה {"add": [{"category": "<קטגוריה>", "content": "<עובדה קצרה>"}], "remove": ["<מזהה>"]}. ' +
+        'הסר עובדות שמורות שהשיחה מראה שאינן נכונות עוד (למשל הזמנה שנסגרה), או שהוחלפו בעובדה חדשה.'
+      ),
+      new HumanMessage(
+        `עובדות שמורות (מזהה | קטגוריה | תוכן):\n${known || 'אין'}\n\nהשיחה:\n${transcript}`
+      ),
+    ];
+
+    const usage = new UsageCollector();
+    const definition = modelRegistry.resolve(agent.model);
+    const model = modelRegistry.getChatModel(agent.model, { temperature: 0, maxTokens: 800 });
+    const response = await model.invoke(prompt, {
+      ...(definition.supportsJsonMode && { response_format: { type: 'json_object' } }),
+    });
+    usage.add('SUMMARY', agent.model, usageFromResponse(response, prompt));
+    await usageTracker.record(usage.entries, {
+      organizationId: agent.organizationId,
+      agentId: agent.id,
+      conversationId,
+    });
+
+    let changes: { add?: unknown; remove?: unknown };
+    try {
+      const match = response.content.toString().match(/\{[\s\S]*\}/);
+      changes = JSON.parse(match ? match[0] : '');
+    } catch (error) {
+      logger.warn(`Memory extraction for conversation ${conversationId} returned unreadable JSON`, {
+        content: response.content,
+      });
+      return;
+    }
+
+    const existingIds = new Set(existing.map(memory => memory.id));
+    const remove = (Array.isArray(changes.remove) ? changes.remove : [])
+      .filter((id): id is string => typeof id === 'string' && existingIds.has(id));
+    const add = (Array.isArray(changes.add) ? changes.add : [])
+      .filter(item => item && typeof item.content === 'string' && item.content.trim())
+      .slice(0, Math.max(MAX_MEMORIES_PER_USER - existing.length + remove.length, 0))
+      .map(item => ({
+        agentId: agent.id,
+        userKey,
+        category: MEMORY_CATEGORIES.includes(item.category) ? item.category as MemoryCategory : 'OTHER',
+        content: item.content.trim().slice(0, MAX_MEMORY_LENGTH),
+        sourceConversationId: conversationId,
+      }));
+
+    if (add.length === 0 && remove.length === 0) {
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.agentMemory.deleteMany({ where: { id: { in: remove } } }),
+      prisma.agentMemory.createMany({ data: add }),
+    ]);
+
+    logger.info(`Memories updated for conversation ${conversationId}`, {
+      agentId: agent.id,
+      added: add.length,
+      removed: remove.length,
+    });
+  }
+
+  /**
+   * Memories stored about an end user across the organization's agents
+   */
+  async list(filter: MemoryFilter): Promise<AgentMemory[]> {
+    return prisma.agentMemory.findMany({
+      where: this.whereOf(filter),
+      include: {
+        agent: { select: { id: true, name: true, hebrewName: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Delete every memory stored about an end user, e.g. for a deletion request.
+   * Returns the number of deleted memories.
+   */
+  async forget(filter: MemoryFilter): Promise<number> {
+    const { count } = await prisma.agentMemory.deleteMany({ where: this.whereOf(filter) });
+
+    logger.info(`Deleted ${count} memories of ${filter.userKey}`, {
+      organizationId: filter.organizationId,
+      agentId: filter.agentId,
+    });
+
+    return count;
+  }
+
+  private whereOf(filter: MemoryFilter) {
+    return {
+      userKey: filter.userKey,
+      agent: { organizationId: filter.organizationId },
+      ...(filter.agentId && { agentId: filter.agentId }),
+    };
+  }
+}
+
+export const agentMemory = new AgentMemoryService();
\ No newline at end of file
@@ -0,0 +1,266 @@
+import fs from 'fs';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { Embeddings } from '@langchain/core/embeddings';
+import { AIMessage, AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { logger } from '../../utils/logger';
+import { removeNikud } from '../hebrew-nlp/nikud';
+import { ChatModelCallOptions } from './providers';
+
+// Route every chat model and embedding call to the mock provider
+export const MOCK_LLM_ENABLED = process.env.MOCK_LLM === 'true';
+
+// Size of mock embeddings, the same as OpenAI's so the vector collection fits both
+const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * A scripted reply. The first rule whose pattern matches the last user message answers.
+ */
+export type MockRule = {
+  // Case-insensitive regular expression
+  match: string;
+  // Reply text; {{input}} is replaced with the user message and {{toolResult}} with the tool output
+  reply?: string;
+  // Tool the model calls first, when the agent has it
+  toolCall?: { name: string; arguments?: Record<string, any> };
+  // Fail the call instead, e.g. { "status": 429 } to exercise retries and fallback models
+  error?: { status?: number; message?: string };
+  // Extra delay for this rule
+  latencyMs?: number;
+};
+
+interface MockReply {
+  content: string;
+  toolCall?: { id: string; name: string; arguments: string };
+}
+
+/**
+ * Chat model that answers from a script, without network access. Replies only
+ * depend on the messages, so the same conversation always gets the same answers.
+ */
+export class MockChatModel extends BaseChatModel<ChatModelCallOptions> {
+  private static rules: MockRule[] | undefined;
+
+  private modelName: string;
+  private latencyMs: number;
+
+  constructor(modelName: string) {
+    super({});
+    this.modelName = modelName;
+    this.latencyMs = parseInt(process.env.MOCK_LLM_LATENCY_MS || '0');
+  }
+
+  _llmType(): string {
+    return 'mock';
+  }
+
+  async _generate(messages: BaseMessage[], options: this['ParsedCallOptions']): Promise<ChatResult> {
+    const reply = await this.respond(messages, options);
+    const message = new AIMessage({
+      content: reply.content,
+      additional_kwargs: reply.toolCall ? { tool_calls: [toolCallOf(reply.toolCall)] } : {},
+      tool_calls: reply.toolCall
+        ? [{ id: reply.toolCall.id, name: reply.toolCall.name, args: JSON.parse(reply.toolCall.arguments) }]
+        : [],
+    });
+
+    return { generations: [{ text: reply.content, message }] };
+  }
+
+  /**
+   * Stream the reply word by word
+   */
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions']
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const reply = await this.respond(messages, options);
+
+    if (reply.toolCall) {
+      yield new ChatGenerationChunk({
+        text: '',
+        message: new AIMessageChunk({
+          content: '',
+          additional_kwargs: { tool_calls: [toolCallOf(reply.toolCall)] },
+          tool_call_chunks: [{
+            id: reply.toolCall.id,
+            name: reply.toolCall.name,
+            args: reply.toolCall.arguments,
+            index: 0,
+          }],
+        }),
+      });
+      return;
+    }
+
+    for (const token of reply.content.match(/\s*\S+/g) || []) {
+      yield new ChatGenerationChunk({ text: token, message: new AIMessageChunk({ content: token }) });
+    }
+  }
+
+  /**
+   * Pick the reply for the conversation so far
+   */
+  private async respond(messages: BaseMessage[], options: ChatModelCallOptions): Promise<MockReply> {
+    const lastUserIndex = findLastIndex(messages, message => message._getType() === 'human');
+    const input = lastUserIndex >= 0 ? messages[lastUserIndex].content.toString() : '';
+    const toolResults = messages.slice(lastUserIndex + 1).filter(message => message._getType() === 'tool');
+    const rule = MockChatModel.loadRules().find(candidate => new RegExp(candidate.match, 'i').test(input));
+
+    await sleep(this.latencyMs + (rule?.latencyMs || 0), options.signal);
+
+    if (rule?.error) {
+      const error: any = new Error(rule.error.message || `Mock error for "${rule.match}"`);
+      error.status = rule.error.status;
+      throw error;
+    }
+
+    // Call the scripted tool once per user message, then answer with its result
+    const tools = options.tools || [];
+    if (rule?.toolCall && toolResults.length === 0 &&
+        tools.some(tool => tool.function.name === rule.toolCall!.name)) {
+      return {
+        content: '',
+        toolCall: {
+          id: `call_mock_${lastUserIndex}`,
+          name: rule.toolCall.name,
+          arguments: JSON.stringify(rule.toolCall.arguments || {}),
+        },
+      };
+    }
+
+    const toolResult = toolResults.map(message => message.content.toString()).join('\n');
+    if (rule?.reply !== undefined) {
+      return { content: rule.reply.split('{{input}}').join(input).split('{{toolResult}}').join(toolResult) };
+    }
+    if (options.response_format?.type === 'json_object') {
+      return { content: '{}' };
+    }
+    if (toolResult) {
+      return { content: `[${this.modelName}] ${toolResult}` };
+    }
+    return { content: `[${this.modelName}] ${input}` };
+  }
+
+  /**
+   * Rules from the JSON file in MOCK_LLM_SCRIPT, read once
+   */
+  private static loadRules(): MockRule[] {
+    if (this.rules) {
+      return this.rules;
+    }
+
+    this.rules = [];
+    const path = process.env.MOCK_LLM_SCRIPT;
+    if (path) {
+      try {
+        const rules = JSON.parse(fs.readFileSync(path, 'utf8'));
+        if (!Array.isArray(rules) || !rules.every(rule => typeof rule?.match === 'string')) {
+          throw new Error('Script must be a list of rules with a "match" pattern');
+        }
+        this.rules = rules;
+        logger.info(`Mock LLM script loaded: ${rules.length} rules from ${path}`);
+      } catch (error) {
+        logger.error(`Failed to load mock LLM script ${path}:`, error);
+      }
+    }
+
+    return this.rules;
+  }
+}
+
+/**
+ * Embeddings computed locally from hashed words and character trigrams.
+ * Texts that share words get similar vectors, which is enough for retrieval
+ * and the response cache to behave sensibly offline.
+ */
+export class MockEmbeddings extends Embeddings {
+  constructor() {
+    super({});
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map(document => mockEmbedding(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return mockEmbedding(document);
+  }
+}
+
+/**
+ * Deterministic unit vector for a text
+ */
+export function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = removeNikud(text)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  for (const word of words) {
+    addFeature(vector, `w:${word}`, 1);
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map(value => value / norm);
+}
+
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const hash = fnv1a(feature);
+  vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function toolCallOf(call: { id: string; name: string; arguments: string }) {
+  return {
+    id: call.id,
+    type: 'function' as const,
+    function: { name: call.name, arguments: call.arguments },
+  };
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Wait, ending early with an error when the call is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Mock model call aborted'));
+    }, { once: true });
+  });
+}
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { Agent, Conversation } from '@prisma/client';
+import { prisma } from '../../database/connection';
+
+export type PromptVariables = Record<string, unknown>;
+
+// Variables that may appear in Agent.prompt. Custom per-conversation values are
+// read from Conversation.metadata as {{conversation.metadata.<key>}}.
+export const PROMPT_VARIABLES = [
+  'user.firstName',
+  'user.lastName',
+  'user.hebrewFirstName',
+  'user.hebrewLastName',
+  'user.email',
+  'organization.name',
+  'organization.hebrewName',
+  'agent.name',
+  'agent.hebrewName',
+  'conversation.id',
+  'conversation.channel',
+  'now',
+] as const;
+
+const TIME_ZONE = 'Asia/Jerusalem';
+
+const CUSTOM_VARIABLE_REGEX = /^conversation\.metadata\.[\w-]+$/;
+
+// Formatters usable as {{variable | filter}}
+const FILTERS: Record<string, (value: unknown) => string> = {
+  hebrewDate: value => formatDate(value, date => date.toLocaleDateString('he-IL-u-ca-hebrew', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: TIME_ZONE,
+  })),
+  date: value => formatDate(value, date => date.toLocaleDateString('he-IL', { timeZone: TIME_ZONE })),
+  time: value => formatDate(value, date => date.toLocaleTimeString('he-IL', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: TIME_ZONE,
+  })),
+  weekday: value => formatDate(value, date => date.toLocaleDateString('he-IL', { weekday: 'long', timeZone: TIME_ZONE })),
+};
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w.-]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+
+/**
+ * Find variables and filters in a prompt that cannot be resolved
+ */
+export function findUnknownVariables(prompt: string): string[] {
+  const unknown = new Set<string>();
+
+  for (const [, name, filter] of prompt.matchAll(PLACEHOLDER_REGEX)) {
+    if (!(PROMPT_VARIABLES as readonly string[]).includes(name) && !CUSTOM_VARIABLE_REGEX.test(name)) {
+      unknown.add(name);
+    }
+    if (filter && !Object.prototype.hasOwnProperty.call(FILTERS, filter)) {
+      unknown.add(`${name} | ${filter}`);
+    }
+  }
+
+  return [...unknown];
+}
+
+/**
+ * Collect variable values for a conversation. Overrides (e.g. sample values
+ * sent to the test endpoint) take precedence over stored data.
+ */
+export async function resolvePromptVariables(
+  agent: Agent,
+  conversation: Conversation,
+  overrides: PromptVariables = {}
+): Promise<PromptVariables> {
+  const [user, organization] = await Promise.all([
+    conversation.userId
+      ? prisma.user.findUnique({ where: { id: conversation.userId } })
+      : null,
+    prisma.organization.findUnique({ where: { id: agent.organizationId } }),
+  ]);
+
+  const values: PromptVariables = {
+    'user.firstName': user?.firstName,
+    'user.lastName': user?.lastName,
+    'user.hebrewFirstName': user?.hebrewFirstName || user?.firstName,
+    'user.hebrewLastName': user?.hebrewLastName || user?.lastName,
+    'user.email': user?.email,
+    'organization.name': organization?.name,
+    'organization.hebrewName': organization?.hebrewName || organization?.name,
+    'agent.name': agent.name,
+    'agent.hebrewName': agent.hebrewName || agent.name,
+    'conversation.id': conversation.id,
+    'conversation.channel': conversation.channel,
+    'now': new Date(),
+  };
+
+  const metadata = conversation.metadata;
+  if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+    for (const [key, value] of Object.entries(metadata)) {
+      if (value === null || typeof value !== 'object') {
+        values[`conversation.metadata.${key}`] = value;
+      }
+    }
+  }
+
+  return { ...values, ...overrides };
+}
+
+/**
+ * Substitute variables in a prompt. Missing values render as an empty string.
+ */
+export function renderPrompt(prompt: string, variables: PromptVariables): string {
+  return prompt.replace(PLACEHOLDER_REGEX, (_, name: string, filter?: string) => {
+    const value = variables[name];
+    if (value === undefined || value === null || value === '') {
+      return '';
+    }
+    if (filter && Object.prototype.hasOwnProperty.call(FILTERS, filter)) {
+      return FILTERS[filter](value);
+    }
+    return value instanceof Date ? FILTERS.date(value) : String(value);
+  });
+}
+
+/**
+ * Format a date-like value; values that are not dates are rendered as-is
+ */
+function formatDate(value: unknown, format: (date: Date) => string): string {
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? String(value) : format(date);
+}
\ No newline at end of file
@@ -0,0 +1,224 @@
+import { BaseChatModel, BaseChatModelCallOptions } from '@langchain/core/language_models/chat_models';
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { logger } from '../../utils/logger';
+import { MOCK_LLM_ENABLED, MockChatModel } from './mock-provider';
+import { ToolDefinition } from './tools';
+
+export type ModelProvider = 'openai' | 'anthropic' | 'local' | 'mock';
+
+export interface ModelDefinition {
+  name: string;
+  provider: ModelProvider;
+  providerModel: string;
+  contextWindow: number;
+  supportsTools: boolean;
+  // Provider can be forced to return a JSON object
+  supportsJsonMode: boolean;
+  pricing: ModelPricing;
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelOptions {
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface ChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: ToolDefinition[];
+  response_format?: { type: 'json_object' };
+}
+
+export type ChatModel = BaseChatModel<ChatModelCallOptions>;
+
+// Models exposed to agents, keyed by the name stored in Agent.model
+const SUPPORTED_MODELS: Record<string, Omit<ModelDefinition, 'name'>> = {
+  'gpt-4': { provider: 'openai', providerModel: 'gpt-4', contextWindow: 8192, supportsTools: true, supportsJsonMode: false, pricing: { input: 30, output: 60 } },
+  'gpt-4-turbo-preview': { provider: 'openai', providerModel: 'gpt-4-turbo-preview', contextWindow: 128000, supportsTools: true, supportsJsonMode: true, pricing: { input: 10, output: 30 } },
+  'gpt-3.5-turbo': { provider: 'openai', providerModel: 'gpt-3.5-turbo', contextWindow: 4096, supportsTools: true, supportsJsonMode: true, pricing: { input: 0.5, output: 1.5 } },
+  'claude-3-opus': { provider: 'anthropic', providerModel: 'claude-3-opus-20240229', contextWindow: 200000, supportsTools: false, supportsJsonMode: false, pricing: { input: 15, output: 75 } },
+  'claude-3-sonnet': { provider: 'anthropic', providerModel: 'claude-3-sonnet-20240229', contextWindow: 200000, supportsTools: false, supportsJsonMode: false, pricing: { input: 3, output: 15 } },
+};
+
+// Embedding models used by the vector store
+const EMBEDDING_PRICING: Record<string, ModelPricing> = {
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+};
+
+// Models served by a local OpenAI-compatible endpoint are addressed as "local:<model>"
+const LOCAL_MODEL_PREFIX = 'local:';
+
+// Scripted offline models are addressed as "mock" or "mock:<name>"
+const MOCK_MODEL_NAME = 'mock';
+
+export class ModelRegistry {
+  private clients: Map<string, ChatModel>;
+
+  constructor() {
+    this.clients = new Map();
+  }
+
+  /**
+   * Check whether a model name can be resolved to a provider
+   */
+  isSupported(modelName: string): boolean {
+    if (modelName.startsWith(LOCAL_MODEL_PREFIX)) {
+      return modelName.length > LOCAL_MODEL_PREFIX.length;
+    }
+    if (isMockModel(modelName)) {
+      return true;
+    }
+    return Object.prototype.hasOwnProperty.call(SUPPORTED_MODELS, modelName);
+  }
+
+  /**
+   * Resolve an agent model name to its provider definition.
+   * With MOCK_LLM=true every model keeps its limits but is served by the mock provider.
+   */
+  resolve(modelName: string): ModelDefinition {
+    if (!this.isSupported(modelName)) {
+      throw new Error(`Unsupported model: ${modelName}`);
+    }
+
+    if (isMockModel(modelName)) {
+      return {
+        name: modelName,
+        provider: 'mock',
+        providerModel: modelName,
+        contextWindow: 128000,
+        supportsTools: true,
+        supportsJsonMode: true,
+        pricing: { input: 0, output: 0 },
+      };
+    }
+
+    const definition = this.resolveProvider(modelName);
+    return MOCK_LLM_ENABLED
+      ? { ...definition, provider: 'mock', pricing: { input: 0, output: 0 } }
+      : definition;
+  }
+
+  /**
+   * Definition of a model served by a real provider
+   */
+  private resolveProvider(modelName: string): ModelDefinition {
+    if (modelName.startsWith(LOCAL_MODEL_PREFIX)) {
+      return {
+        name: modelName,
+        provider: 'local',
+        providerModel: modelName.slice(LOCAL_MODEL_PREFIX.length),
+        contextWindow: parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '8192'),
+        supportsTools: process.env.LOCAL_LLM_SUPPORTS_TOOLS === 'true',
+        supportsJsonMode: process.env.LOCAL_LLM_SUPPORTS_JSON_MODE === 'true',
+        pricing: { input: 0, output: 0 },
+      };
+    }
+
+    return { name: modelName, ...SUPPORTED_MODELS[modelName] };
+  }
+
+  /**
+   * Cost in USD of a chat or embedding call. Unknown models cost 0.
+   */
+  costOf(modelName: string, promptTokens: number, completionTokens: number): number {
+    const pricing = Object.prototype.hasOwnProperty.call(EMBEDDING_PRICING, modelName)
+      ? EMBEDDING_PRICING[modelName]
+      : this.isSupported(modelName) ? this.resolve(modelName).pricing : undefined;
+
+    if (!pricing) {
+      return 0;
+    }
+    return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+  }
+
+  /**
+   * Get a chat model client for the given model and generation options
+   */
+  getChatModel(modelName: string, options: ModelOptions): ChatModel {
+    const definition = this.resolve(modelName);
+    const cacheKey = `${modelName}:${options.temperature}:${options.maxTokens}`;
+
+    let client = this.clients.get(cacheKey);
+    if (!client) {
+      client = this.createClient(definition, options);
+      this.clients.set(cacheKey, client);
+      logger.info('Model client created', { model: modelName, provider: definition.provider });
+    }
+
+    return client;
+  }
+
+  /**
+   * Create a provider client
+   */
+  private createClient(definition: ModelDefinition, options: ModelOptions): ChatModel {
+    switch (definition.provider) {
+      case 'openai':
+        return new ChatOpenAI({
+          modelName: definition.providerModel,
+          temperature: options.temperature,
+          maxTokens: options.maxTokens,
+          // Retries are handled by the engine's retry policy
+          maxRetries: 0,
+          openAIApiKey: this.requireCredential('openai', 'OPENAI_API_KEY'),
+          // Token log probabilities feed the confidence score
+          logprobs: true,
+          configuration: {
+            organization: process.env.OPENAI_ORG_ID || undefined,
+          },
+        });
+
+      case 'anthropic':
+        return new ChatAnthropic({
+          modelName: definition.providerModel,
+          temperature: options.temperature,
+          maxTokens: options.maxTokens,
+          maxRetries: 0,
+          anthropicApiKey: this.requireCredential('anthropic', 'ANTHROPIC_API_KEY'),
+        });
+
+      case 'local':
+        return new ChatOpenAI({
+          modelName: definition.providerModel,
+          temperature: options.temperature,
+          maxTokens: options.maxTokens,
+          maxRetries: 0,
+          // OpenAI-compatible servers usually ignore the key, but the client requires one
+          openAIApiKey: process.env.LOCAL_LLM_API_KEY || 'not-needed',
+          configuration: {
+            baseURL: this.requireCredential('local', 'LOCAL_LLM_BASE_URL'),
+          },
+        });
+
+      case 'mock':
+        return new MockChatModel(definition.name);
+
+      default:
+        throw new Error(`Unknown model provider: ${definition.provider}`);
+    }
+  }
+
+  /**
+   * Read a provider credential from the environment
+   */
+  private requireCredential(provider: ModelProvider, envVar: string): string {
+    const value = process.env[envVar];
+    if (!value) {
+      throw new Error(`Model provider '${provider}' is not configured: ${envVar} is missing`);
+    }
+    return value;
+  }
+}
+
+function isMockModel(modelName: string): boolean {
+  return modelName === MOCK_MODEL_NAME || modelName.startsWith(`${MOCK_MODEL_NAME}:`);
+}
+
+export const modelRegistry = new ModelRegistry();
\ No newline at end of file
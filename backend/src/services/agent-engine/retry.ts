@@ -0,0 +1,83 @@
+import { logger } from '../../utils/logger';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: parseInt(process.env.AGENT_MODEL_MAX_RETRIES || '2'),
+  baseDelayMs: parseInt(process.env.AGENT_MODEL_RETRY_DELAY_MS || '500'),
+  maxDelayMs: 8000,
+};
+
+// Network errors worth another attempt
+const RETRYABLE_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Thrown when a model call exceeds its time limit
+ */
+export class ModelTimeoutError extends Error {
+  constructor(model: string, timeoutMs: number) {
+    super(`Model ${model} did not respond within ${timeoutMs}ms`);
+    this.name = 'ModelTimeoutError';
+  }
+}
+
+/**
+ * Rate limits, provider 5xx errors and dropped connections are retried.
+ * Timeouts are not: the next model in the chain is tried instead.
+ */
+export function isRetryableError(error: any): boolean {
+  if (error instanceof ModelTimeoutError) {
+    return false;
+  }
+
+  const status = error?.status ?? error?.response?.status;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+
+  return RETRYABLE_CODES.includes(error?.code) || RETRYABLE_CODES.includes(error?.cause?.code);
+}
+
+/**
+ * Run an operation, retrying retryable errors with exponential backoff and jitter
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (error: any, attempt: number) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = retryDelay(error, attempt, policy);
+      logger.warn(`Retrying after error (attempt ${attempt + 1}/${policy.maxRetries}) in ${delay}ms`, {
+        error: (error as Error).message,
+      });
+      onRetry?.(error, attempt + 1);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Backoff delay, honouring a Retry-After header when the provider sends one
+ */
+function retryDelay(error: any, attempt: number, policy: RetryPolicy): number {
+  const headers = error?.headers ?? error?.response?.headers;
+  const retryAfter = Number(typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']);
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, policy.maxDelayMs);
+  }
+
+  const exponential = policy.baseDelayMs * Math.pow(2, attempt);
+  return Math.min(Math.round(exponential / 2 + Math.random() * exponential / 2), policy.maxDelayMs);
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { Agent, Message } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { UsageCollector, usageFromResponse } from '../usage';
+import { modelRegistry } from './providers';
+
+export interface RoutingDecision {
+  target: Agent | null;
+  reason: string;
+}
+
+// Recent turns shown to the router besides the current message
+const ROUTING_HISTORY_MESSAGES = 6;
+
+/**
+ * Ask the router agent's model which target agent should handle the user's
+ * message. Returns no target when the intent is unclear, so the router can
+ * answer itself (e.g. with a clarifying question).
+ */
+export async function classifyIntent(
+  router: Agent,
+  targets: Agent[],
+  userInput: string,
+  history: Message[],
+  usage?: UsageCollector
+): Promise<RoutingDecision> {
+  if (targets.length === 0) {
+    return { target: null, reason: 'no handoff targets' };
+  }
+
+  const catalog = targets
+    .map((agent, index) => `${index + 1}. ${agent.hebrewName || agent.name}: ${agent.description || agent.name}`)
+    .join('\n');
+  const transcript = history
+    .filter(msg => msg.role === 'USER' || msg.role === 'ASSISTANT')
+    .slice(-ROUTING_HISTORY_MESSAGES)
+    .map(msg => `${msg.role === 'USER' ? 'משתמש' : 'סוכן'}: ${msg.content}`)
+    .join('\n');
+
+  const prompt = [
+    new SystemMessage(
+      `${router.prompt}\n\n` +
+      'תפקידך לנתב את המשתמש לסוכן המתאים ביותר מתוך הרשימה:\n' +
+      `${catalog}\n\n` +
+      'החזר JSON בלבד במבנה {"agent": <מספר הסוכן או null>, "reason": "<הסבר קצר>"}. ' +
+      'החזר null אם כוונת המשתמש אינה ברורה או אינה מתאימה לאף סוכן.'
+    ),
+    new HumanMessage(`${transcript ? `היסטוריית השיחה:\n${transcript}\n\n` : ''}הודעת המשתמש:\n${userInput}`),
+  ];
+
+  const definition = modelRegistry.resolve(router.model);
+  const model = modelRegistry.getChatModel(router.model, { temperature: 0, maxTokens: 200 });
+  const response = await model.invoke(prompt, {
+    ...(definition.supportsJsonMode && { response_format: { type: 'json_object' } }),
+  });
+  usage?.add('CHAT', router.model, usageFromResponse(response, prompt));
+
+  const match = response.content.toString().match(/\{[\s\S]*\}/);
+  try {
+    const decision = JSON.parse(match ? match[0] : '');
+    const index = Number(decision.agent);
+    const target = Number.isInteger(index) ? targets[index - 1] : undefined;
+
+    return {
+      target: target || null,
+      reason: typeof decision.reason === 'string' ? decision.reason : '',
+    };
+  } catch (error) {
+    logger.warn(`Router ${router.id} returned an unreadable decision`, { content: response.content });
+    return { target: null, reason: 'unreadable routing decision' };
+  }
+}
\ No newline at end of file
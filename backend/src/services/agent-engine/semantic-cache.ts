@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import { Agent } from '@prisma/client';
+import { prisma } from '../../database/connection';
+import { logger } from '../../utils/logger';
+import { cache, redisClient } from '../redis';
+import { hebrewNLP } from '../hebrew-nlp';
+import { UsageCollector } from '../usage';
+import { vectorStore } from '../vector-store';
+
+// Answers kept per agent configuration; the oldest are dropped first
+const MAX_ENTRIES = parseInt(process.env.SEMANTIC_CACHE_MAX_ENTRIES || '200');
+
+// Seconds an answer stays cached
+const TTL_SECONDS = parseInt(process.env.SEMANTIC_CACHE_TTL_SECONDS || '604800');
+
+// Most that shared lemmas add to the embedding similarity. Kept small, as lemmas
+// ignore word order: "משלוח לאילת" and "משלוח מאילת" have the same lemmas.
+const MAX_LEMMA_BOOST = 0.03;
+
+export interface CachedAnswer {
+  question: string;
+  content: string;
+  confidence: number;
+  suggestedActions?: string[];
+  // Model that wrote the answer
+  model: string;
+  // Assistant message the answer was first sent in
+  messageId?: string;
+  createdAt: string;
+}
+
+interface CacheEntry extends CachedAnswer {
+  // Float32 embedding, base64 encoded to keep entries small
+  embedding: string;
+  // Distinct lemmas of the question
+  lemmas?: string[];
+}
+
+export interface CacheLookup {
+  key: string;
+  embedding: number[];
+  lemmas: string[];
+  hit?: CachedAnswer;
+  similarity: number;
+}
+
+export class SemanticCache {
+  /**
+   * Find an answer to a question close enough to the given one, asked of the
+   * same agent version with the same knowledge base state
+   */
+  async lookup(agent: Agent, question: string, usage?: UsageCollector): Promise<CacheLookup> {
+    const [key, embedding] = await Promise.all([
+      this.keyOf(agent),
+      vectorStore.embedQuery(question, usage, agent.id),
+    ]);
+
+    const lemmas = [...new Set(hebrewNLP.lemmatize(question))];
+
+    let best: CacheEntry | undefined;
+    let similarity = 0;
+    try {
+      const entries = await redisClient.lrange(key, 0, -1);
+      for (const raw of entries) {
+        const entry: CacheEntry = JSON.parse(raw);
+        // Shared lemmas narrow the gap that inflection leaves between embeddings,
+        // e.g. "איך מבטלים הזמנה" and "איך לבטל הזמנה", but cannot match on their own
+        const boost = entry.lemmas ? MAX_LEMMA_BOOST * lemmaOverlap(lemmas, entry.lemmas) : 0;
+        const score = Math.min(1, cosineSimilarity(embedding, decodeEmbedding(entry.embedding)) + boost);
+        if (score > similarity) {
+          similarity = score;
+          best = entry;
+        }
+      }
+    } catch (error) {
+      logger.error(`Semantic cache lookup failed for agent ${agent.id}:`, error);
+    }
+
+    const hit = best && similarity >= agent.responseCacheThreshold ? best : undefined;
+    if (hit) {
+      const { embedding: _embedding, lemmas: _lemmas, ...answer } = hit;
+      return { key, embedding, lemmas, hit: answer, similarity };
+    }
+
+    return { key, embedding, lemmas, similarity };
+  }
+
+  /**
+   * Cache an answer under the key and embedding of a lookup that missed
+   */
+  async store(lookup: CacheLookup, answer: CachedAnswer): Promise<void> {
+    const entry: CacheEntry = {
+      ...answer,
+      embedding: encodeEmbedding(lookup.embedding),
+      lemmas: lookup.lemmas,
+    };
+
+    try {
+      await redisClient
+        .multi()
+        .lpush(lookup.key, JSON.stringify(entry))
+        .ltrim(lookup.key, 0, MAX_ENTRIES - 1)
+        .expire(lookup.key, TTL_SECONDS)
+        .exec();
+    } catch (error) {
+      logger.error(`Failed to store semantic cache entry ${lookup.key}:`, error);
+    }
+  }
+
+  /**
+   * Drop every cached answer of an agent
+   */
+  async invalidate(agentId: string): Promise<void> {
+    await cache.clear(`semcache:${agentId}:*`);
+    logger.info(`Semantic cache cleared for agent ${agentId}`);
+  }
+
+  /**
+   * Cache key of the agent's current state. It changes when a version is
+   * published or a knowledge base or its documents change, so stale answers
+   * are never found even before they are cleared.
+   */
+  private async keyOf(agent: Agent): Promise<string> {
+    const knowledgeBases = await prisma.knowledgeBase.findMany({
+      where: { agentId: agent.id, isActive: true },
+      select: {
+        id: true,
+        updatedAt: true,
+        _count: { select: { documents: true } },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    const state = knowledgeBases
+      .map(kb => `${kb.id}:${kb.updatedAt.toISOString()}:${kb._count.documents}`)
+      .join(',');
+    const fingerprint = crypto
+      .createHash('sha256')
+      .update(`${agent.publishedVersion}|${agent.updatedAt.toISOString()}|${state}`)
+      .digest('hex')
+      .slice(0, 16);
+
+    return `semcache:${agent.id}:${fingerprint}`;
+  }
+}
+
+function encodeEmbedding(embedding: number[]): string {
+  return Buffer.from(new Float32Array(embedding).buffer).toString('base64');
+}
+
+function decodeEmbedding(encoded: string): Float32Array {
+  // Copied so the array starts on a 4-byte boundary
+  const bytes = new Uint8Array(Buffer.from(encoded, 'base64'));
+  return new Float32Array(bytes.buffer);
+}
+
+/**
+ * Jaccard similarity of two sets of lemmas
+ */
+function lemmaOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const other = new Set(b);
+  const shared = a.filter(lemma => other.has(lemma)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+/**
+ * Cosine similarity of two embeddings
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export const semanticCache = new SemanticCache();
\ No newline at end of file
@@ -0,0 +1,116 @@
+import Ajv, { ValidateFunction } from 'ajv';
+
+export interface StructuredOutputResult {
+  value?: Record<string, any>;
+  errors: string[];
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+// Compiled validators, keyed by the serialized schema
+const validators = new Map<string, ValidateFunction>();
+
+/**
+ * Check that an agent output schema is a valid JSON Schema describing an object.
+ * Returns an error message, or null when the schema is usable.
+ */
+export function checkOutputSchema(schema: unknown): string | null {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return 'Output schema must be a JSON Schema object';
+  }
+  if ((schema as Record<string, any>).type !== 'object') {
+    return 'Output schema must describe an object (type: "object")';
+  }
+
+  try {
+    getValidator(schema as Record<string, any>);
+    return null;
+  } catch (error: any) {
+    return `Invalid output schema: ${error.message}`;
+  }
+}
+
+/**
+ * Instructions appended to the system prompt of agents with an output schema
+ */
+export function outputSchemaInstructions(schema: Record<string, any>): string {
+  return '\n\nהחזר את תשובתך כאובייקט JSON בלבד, ללא טקסט נוסף וללא בלוק קוד, ' +
+    `התואם את סכמת ה-JSON הבאה:\n${JSON.stringify(schema, null, 2)}`;
+}
+
+/**
+ * Message asking the model to fix a reply that did not match the schema
+ */
+export function repairInstructions(errors: string[]): string {
+  return `התשובה הקודמת אינה JSON תקין לפי הסכמה:\n${errors.map(error => `- ${error}`).join('\n')}\n` +
+    'החזר את אותה תשובה כאובייקט JSON מתוקן בלבד.';
+}
+
+/**
+ * Parse a model reply as JSON and validate it against the schema
+ */
+export function parseStructuredOutput(content: string, schema: Record<string, any>): StructuredOutputResult {
+  // Models sometimes wrap JSON in a markdown code block despite instructions
+  const text = content.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (error: any) {
+    return { errors: [`Reply is not valid JSON: ${error.message}`] };
+  }
+
+  const validate = getValidator(schema);
+  if (!validate(value)) {
+    return {
+      errors: (validate.errors || []).map(error => `${error.instancePath || '/'} ${error.message}`),
+    };
+  }
+
+  return { value: value as Record<string, any>, errors: [] };
+}
+
+/**
+ * Render a structured reply as readable Hebrew text, using schema titles as labels
+ */
+export function renderStructuredOutput(value: any, schema: Record<string, any> = {}, depth: number = 0): string {
+  const indent = '  '.repeat(depth);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return 'אין';
+    }
+    return value
+      .map(item => `\n${indent}• ${renderStructuredOutput(item, schema.items || {}, depth + 1).trimStart()}`)
+      .join('');
+  }
+
+  if (value && typeof value === 'object') {
+    const properties: Record<string, any> = schema.properties || {};
+    return Object.entries(value)
+      .filter(([, item]) => item !== null && item !== undefined && item !== '')
+      .map(([key, item]) => {
+        const property = properties[key] || {};
+        const label = property.title || key;
+        const rendered = renderStructuredOutput(item, property, depth + 1);
+        return `${depth > 0 ? '\n' : ''}${indent}${label}: ${rendered}`;
+      })
+      .join(depth > 0 ? '' : '\n');
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'כן' : 'לא';
+  }
+
+  return String(value);
+}
+
+function getValidator(schema: Record<string, any>): ValidateFunction {
+  const key = JSON.stringify(schema);
+  let validate = validators.get(key);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(key, validate);
+  }
+  return validate;
+}
\ No newline at end of file
@@ -0,0 +1,245 @@
+import axios from 'axios';
+import { AgentSkill, SkillType } from '@prisma/client';
+import { hebrewNLP } from '../hebrew-nlp';
+import { vectorStore } from '../vector-store';
+import { UsageCollector } from '../usage';
+import { runApiCallSkill } from './api-call-skill';
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface SkillContext {
+  agentId: string;
+  organizationId: string;
+  conversationId: string;
+  usage?: UsageCollector;
+}
+
+// Parameter schemas offered to the model when a skill does not define its own
+const DEFAULT_PARAMETERS: Record<SkillType, Record<string, any>> = {
+  API_CALL: {
+    type: 'object',
+    properties: {},
+  },
+  DATABASE_QUERY: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query for the knowledge base' },
+    },
+    required: ['query'],
+  },
+  CALCULATION: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Arithmetic expression, e.g. (120 * 1.17) / 3' },
+    },
+    required: ['expression'],
+  },
+  TRANSLATION: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+      targetLang: { type: 'string', enum: ['he', 'en'] },
+    },
+    required: ['text', 'targetLang'],
+  },
+  SENTIMENT_ANALYSIS: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+    },
+    required: ['text'],
+  },
+  ENTITY_EXTRACTION: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+    },
+    required: ['text'],
+  },
+  CUSTOM: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+/**
+ * Expose the agent's active skills as tool definitions.
+ * Tool names must be ASCII, so Hebrew skill names are replaced by an id-based name.
+ */
+export function buildToolset(skills: AgentSkill[]): {
+  definitions: ToolDefinition[];
+  skillsByName: Map<string, AgentSkill>;
+} {
+  const definitions: ToolDefinition[] = [];
+  const skillsByName = new Map<string, AgentSkill>();
+
+  for (const skill of skills) {
+    let name = skill.name.trim().replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64);
+    if (!name || skillsByName.has(name)) {
+      name = `skill_${skill.id.replace(/-/g, '').slice(0, 12)}`;
+    }
+
+    const config = (skill.configuration || {}) as Record<string, any>;
+
+    skillsByName.set(name, skill);
+    definitions.push({
+      type: 'function',
+      function: {
+        name,
+        description: skill.description || skill.name,
+        parameters: config.parameters || DEFAULT_PARAMETERS[skill.type],
+      },
+    });
+  }
+
+  return { definitions, skillsByName };
+}
+
+/**
+ * Whether running a skill may change something outside the engine: API calls and
+ * custom webhooks can place orders or send messages, so they must not run twice
+ */
+export function hasSideEffects(skill: AgentSkill): boolean {
+  return skill.type === 'API_CALL' || skill.type === 'CUSTOM';
+}
+
+/**
+ * Execute a skill with the arguments chosen by the model
+ */
+export async function executeSkill(
+  skill: AgentSkill,
+  parameters: Record<string, any>,
+  context: SkillContext
+): Promise<any> {
+  const config = (skill.configuration || {}) as Record<string, any>;
+
+  switch (skill.type) {
+    case 'API_CALL':
+      return runApiCallSkill(skill.configuration, parameters, context.organizationId);
+
+    case 'DATABASE_QUERY': {
+      // Queries are scoped to the agent's own knowledge base
+      const results = await vectorStore.similaritySearch(
+        parameters.query,
+        config.limit || 5,
+        { agentId: context.agentId },
+        context.usage
+      );
+      return results.map(doc => ({ content: doc.pageContent, score: doc.score }));
+    }
+
+    case 'CALCULATION':
+      return { result: evaluateExpression(String(parameters.expression)) };
+
+    case 'TRANSLATION':
+      return { translation: await hebrewNLP.translate(parameters.text, parameters.targetLang) };
+
+    case 'SENTIMENT_ANALYSIS':
+      return hebrewNLP.analyzeSentiment(parameters.text);
+
+    case 'ENTITY_EXTRACTION':
+      return hebrewNLP.extractEntities(parameters.text);
+
+    case 'CUSTOM': {
+      if (!config.webhookUrl) {
+        throw new Error(`Custom skill ${skill.name} has no webhookUrl configured`);
+      }
+      const response = await axios.post(
+        config.webhookUrl,
+        {
+          skill: skill.name,
+          parameters,
+          agentId: context.agentId,
+          conversationId: context.conversationId,
+        },
+        { timeout: config.timeoutMs || 10000 }
+      );
+      return response.data;
+    }
+
+    default:
+      throw new Error(`Unsupported skill type: ${skill.type}`);
+  }
+}
+
+/**
+ * Evaluate an arithmetic expression (+ - * / % ^ and parentheses) without eval
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?|[-+*/%^()]/g) || [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`Invalid expression: ${expression}`);
+  }
+
+  let position = 0;
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (tokens[position] === '+' || tokens[position] === '-') {
+      const operator = tokens[position++];
+      const right = parseTerm();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseFactor();
+    while (tokens[position] === '*' || tokens[position] === '/' || tokens[position] === '%') {
+      const operator = tokens[position++];
+      const right = parseFactor();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseFactor = (): number => {
+    const base = parseUnary();
+    if (tokens[position] === '^') {
+      position++;
+      return Math.pow(base, parseFactor());
+    }
+    return base;
+  };
+
+  const parseUnary = (): number => {
+    const token = tokens[position++];
+    if (token === '-') {
+      return -parseUnary();
+    }
+    if (token === '+') {
+      return parseUnary();
+    }
+    if (token === '(') {
+      const value = parseExpression();
+      if (tokens[position++] !== ')') {
+        throw new Error(`Invalid expression: ${expression}`);
+      }
+      return value;
+    }
+    if (token === undefined || isNaN(Number(token))) {
+      throw new Error(`Invalid expression: ${expression}`);
+    }
+    return Number(token);
+  };
+
+  const result = parseExpression();
+  if (position !== tokens.length || !isFinite(result)) {
+    throw new Error(`Invalid expression: ${expression}`);
+  }
+
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,340 @@
+import { Agent, AgentSkill, AgentVersion, Prisma, SkillType } from '@prisma/client';
+import { prisma } from '../database/connection';
+import { logger } from '../utils/logger';
+import { DiffPart, diffLines } from '../utils/diff';
+import { semanticCache } from './agent-engine/semantic-cache';
+
+// Agent fields that only change through a published version
+export const VERSIONED_FIELDS = [
+  'type',
+  'prompt',
+  'model',
+  'temperature',
+  'maxTokens',
+  'language',
+  'confidenceThreshold',
+  'fallbackModels',
+  'fallbackMessage',
+  'outputSchema',
+  'handoffAgentIds',
+  'memoryEnabled',
+  'guardrails',
+  'redactPii',
+  'keepPiiOriginal',
+  'responseCacheEnabled',
+  'responseCacheThreshold',
+] as const;
+
+export type VersionedField = typeof VERSIONED_FIELDS[number];
+export type VersionedConfig = Pick<Agent, VersionedField>;
+
+// Tries to create a version when concurrent requests take the same number
+const MAX_CREATE_ATTEMPTS = 3;
+
+// Versioned fields stored in JSON columns
+const JSON_FIELDS = ['outputSchema', 'guardrails'] as const;
+
+type JsonField = typeof JSON_FIELDS[number];
+
+export interface SkillSnapshot {
+  id: string;
+  name: string;
+  description: string | null;
+  type: string;
+  configuration: any;
+}
+
+export interface VersionChange {
+  field: string;
+  from: any;
+  to: any;
+  lines?: DiffPart[];
+}
+
+export class AgentVersionService {
+  /**
+   * Make sure the agent's live configuration is recorded as a published version.
+   * Agents created before versioning get their current configuration as version 1.
+   */
+  async ensureInitialVersion(agent: Agent, userId: string): Promise<AgentVersion> {
+    const published = await prisma.agentVersion.findFirst({
+      where: { agentId: agent.id, status: 'PUBLISHED' },
+    });
+    if (published) {
+      return published;
+    }
+
+    const snapshot = await this.snapshotBindings(agent.id);
+    return this.createVersion(
+      {
+        agentId: agent.id,
+        status: 'PUBLISHED',
+        ...this.toData(this.pickConfig(agent)),
+        ...snapshot,
+        createdById: userId,
+        publishedAt: new Date(),
+      },
+      (tx, version) => tx.agent.update({
+        where: { id: agent.id },
+        data: { publishedVersion: version.version },
+      })
+    );
+  }
+
+  /**
+   * Save configuration changes to the agent's draft, creating it if needed
+   */
+  async saveDraft(
+    agent: Agent,
+    changes: Partial<VersionedConfig>,
+    userId: string,
+    notes?: string
+  ): Promise<AgentVersion> {
+    const published = await this.ensureInitialVersion(agent, userId);
+    const draft = await prisma.agentVersion.findFirst({
+      where: { agentId: agent.id, status: 'DRAFT' },
+    });
+
+    const config: VersionedConfig = {
+      ...this.pickConfig(draft || published),
+      ...this.pickConfig(changes),
+    };
+    const snapshot = await this.snapshotBindings(agent.id);
+
+    if (draft) {
+      return prisma.agentVersion.update({
+        where: { id: draft.id },
+        data: { ...this.toData(config), ...snapshot, notes: notes ?? draft.notes },
+      });
+    }
+
+    return this.createVersion({
+      agentId: agent.id,
+      status: 'DRAFT',
+      ...this.toData(config),
+      ...snapshot,
+      notes,
+      createdById: userId,
+    });
+  }
+
+  /**
+   * Make a version live: copy its configuration onto the agent, restore its
+   * skills and knowledge base bindings, and archive the previously published version
+   */
+  async publish(version: AgentVersion): Promise<Agent> {
+    const skills = version.skills as unknown as SkillSnapshot[];
+
+    const agent = await prisma.$transaction(async (tx) => {
+      await tx.agentVersion.updateMany({
+        where: { agentId: version.agentId, status: 'PUBLISHED' },
+        data: { status: 'ARCHIVED' },
+      });
+
+      await tx.agentVersion.update({
+        where: { id: version.id },
+        data: { status: 'PUBLISHED', publishedAt: new Date() },
+      });
+
+      // Skills: restore the snapshot, deactivate everything else
+      await tx.agentSkill.updateMany({
+        where: { agentId: version.agentId, id: { notIn: skills.map(skill => skill.id) } },
+        data: { isActive: false },
+      });
+      for (const skill of skills) {
+        const data = {
+          name: skill.name,
+          description: skill.description,
+          type: skill.type as any,
+          configuration: skill.configuration,
+          isActive: true,
+        };
+        await tx.agentSkill.upsert({
+          where: { id: skill.id },
+          update: data,
+          create: { id: skill.id, agentId: version.agentId, ...data },
+        });
+      }
+
+      // Knowledge bases: only the bound ones stay active
+      await tx.knowledgeBase.updateMany({
+        where: { agentId: version.agentId },
+        data: { isActive: false },
+      });
+      await tx.knowledgeBase.updateMany({
+        where: { agentId: version.agentId, id: { in: version.knowledgeBaseIds } },
+        data: { isActive: true },
+      });
+
+      return tx.agent.update({
+        where: { id: version.agentId },
+        data: {
+          ...this.toData(this.pickConfig(version)),
+          publishedVersion: version.version,
+        },
+      });
+    });
+
+    // Answers cached for the previous configuration no longer apply
+    await semanticCache.invalidate(version.agentId);
+
+    logger.info(`Agent ${version.agentId} published version ${version.version}`);
+
+    return agent;
+  }
+
+  /**
+   * List an agent's versions, newest first
+   */
+  async list(agentId: string): Promise<AgentVersion[]> {
+    return prisma.agentVersion.findMany({
+      where: { agentId },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Get a single version by number
+   */
+  async get(agentId: string, version: number): Promise<AgentVersion | null> {
+    return prisma.agentVersion.findUnique({
+      where: { agentId_version: { agentId, version } },
+    });
+  }
+
+  /**
+   * The agent configuration stored in a version
+   */
+  configOf(version: AgentVersion): VersionedConfig {
+    return this.pickConfig(version);
+  }
+
+  /**
+   * The skills stored in a version, shaped like the agent's skills
+   */
+  skillsOf(version: AgentVersion): AgentSkill[] {
+    return (version.skills as unknown as SkillSnapshot[]).map(skill => ({
+      id: skill.id,
+      agentId: version.agentId,
+      name: skill.name,
+      description: skill.description,
+      type: skill.type as SkillType,
+      configuration: skill.configuration,
+      isActive: true,
+      createdAt: version.createdAt,
+    }));
+  }
+
+  /**
+   * Compare two versions field by field, with a line diff for the prompt
+   */
+  diff(from: AgentVersion, to: AgentVersion): VersionChange[] {
+    const changes: VersionChange[] = [];
+
+    for (const field of VERSIONED_FIELDS) {
+      if (JSON.stringify(from[field]) !== JSON.stringify(to[field])) {
+        changes.push({
+          field,
+          from: from[field],
+          to: to[field],
+          ...(field === 'prompt' && { lines: diffLines(from.prompt, to.prompt) }),
+        });
+      }
+    }
+
+    const fromSkills = JSON.stringify(from.skills);
+    const toSkills = JSON.stringify(to.skills);
+    if (fromSkills !== toSkills) {
+      changes.push({ field: 'skills', from: from.skills, to: to.skills });
+    }
+
+    const fromKbs = [...from.knowledgeBaseIds].sort().join(',');
+    const toKbs = [...to.knowledgeBaseIds].sort().join(',');
+    if (fromKbs !== toKbs) {
+      changes.push({ field: 'knowledgeBaseIds', from: from.knowledgeBaseIds, to: to.knowledgeBaseIds });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Snapshot the agent's active skills and knowledge bases
+   */
+  private async snapshotBindings(agentId: string): Promise<{ skills: any; knowledgeBaseIds: string[] }> {
+    const [skills, knowledgeBases] = await Promise.all([
+      prisma.agentSkill.findMany({ where: { agentId, isActive: true } }),
+      prisma.knowledgeBase.findMany({ where: { agentId, isActive: true }, select: { id: true } }),
+    ]);
+
+    return {
+      skills: skills.map((skill): SkillSnapshot => ({
+        id: skill.id,
+        name: skill.name,
+        description: skill.description,
+        type: skill.type,
+        configuration: skill.configuration,
+      })),
+      knowledgeBaseIds: knowledgeBases.map(kb => kb.id),
+    };
+  }
+
+  /**
+   * Create a version with the next free number, then run any follow-up in the
+   * same transaction. Concurrent creates may pick the same number; the unique
+   * constraint rejects all but one, and the others retry with a new number.
+   */
+  private async createVersion(
+    data: Omit<Prisma.AgentVersionUncheckedCreateInput, 'version'>,
+    then?: (tx: Prisma.TransactionClient, version: AgentVersion) => Promise<unknown>
+  ): Promise<AgentVersion> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(async (tx) => {
+          const latest = await tx.agentVersion.findFirst({
+            where: { agentId: data.agentId },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+          });
+          const version = await tx.agentVersion.create({
+            data: { ...data, version: (latest?.version || 0) + 1 },
+          });
+          await then?.(tx, version);
+          return version;
+        });
+      } catch (error) {
+        const duplicate = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!duplicate || attempt >= MAX_CREATE_ATTEMPTS) {
+          throw error;
+        }
+        logger.warn(`Version number of agent ${data.agentId} was taken, retrying`);
+      }
+    }
+  }
+
+  private pickConfig(source: Partial<VersionedConfig>): VersionedConfig {
+    const config: any = {};
+    for (const field of VERSIONED_FIELDS) {
+      if (source[field] !== undefined) {
+        config[field] = source[field];
+      }
+    }
+    return config;
+  }
+
+  /**
+   * Prisma needs JsonNull to store null in a JSON column
+   */
+  private toData<T extends Partial<VersionedConfig>>(config: T): Omit<T, JsonField> & {
+    [field in JsonField]?: Prisma.InputJsonValue | typeof Prisma.JsonNull;
+  } {
+    const data: any = { ...config };
+    for (const field of JSON_FIELDS) {
+      if (config[field] === null) {
+        data[field] = Prisma.JsonNull;
+      }
+    }
+    return data;
+  }
+}
+
+export const agentVersions = new AgentVersionService();
\ No newline at end of file
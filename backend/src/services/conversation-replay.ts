@@ -0,0 +1,205 @@
+import { Agent, Conversation, Message, MessageRole } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../database/connection';
+import { logger } from '../utils/logger';
+import { DiffPart, diffWords } from '../utils/diff';
+import { agentEngine, FunctionCallRecord } from './agent-engine';
+import { hebrewNLP } from './hebrew-nlp';
+
+// User turns replayed at most, to bound the cost of a replay
+const MAX_REPLAY_TURNS = parseInt(process.env.REPLAY_MAX_TURNS || '30');
+
+export interface ReplayTurn {
+  index: number;
+  userMessage: string;
+  original: {
+    messageId: string;
+    agentId: string | null;
+    content: string;
+    confidence: number | null;
+  } | null;
+  replay: {
+    agentId: string;
+    content: string;
+    confidence: number;
+    metadata: any;
+  } | null;
+  changed: boolean;
+  // Word-level diff from the original reply to the replayed one
+  diff: DiffPart[];
+  error?: string;
+}
+
+export interface ReplayResult {
+  turns: ReplayTurn[];
+  changedTurns: number;
+  // More user turns than MAX_REPLAY_TURNS; only the first ones were replayed
+  truncated: boolean;
+}
+
+interface OriginalTurn {
+  user: Message;
+  replies: Message[];
+  functionCalls: FunctionCallRecord[];
+}
+
+export class ConversationReplayService {
+  /**
+   * Re-run a conversation's user turns against an agent configuration without
+   * storing anything, and compare each new reply with the original one.
+   * Skills are not run again: calls get the results recorded in the original turn.
+   */
+  async replay(conversation: Conversation & { messages: Message[] }, agent: Agent): Promise<ReplayResult> {
+    const originalTurns = this.groupTurns(conversation.messages);
+    const turns: ReplayTurn[] = [];
+    const history: Message[] = [];
+
+    // Earlier summaries, handoffs and transfers belong to the original run
+    const {
+      summary: _summary,
+      handoffs: _handoffs,
+      ...metadata
+    } = (conversation.metadata as Record<string, any>) || {};
+    let replayConversation: Conversation = {
+      ...conversation,
+      agentId: agent.id,
+      status: 'ACTIVE',
+      metadata,
+    };
+    let currentAgent = agent;
+
+    for (const [index, turn] of originalTurns.slice(0, MAX_REPLAY_TURNS).entries()) {
+      const originalContent = turn.replies.map(reply => reply.content).join('\n\n');
+      const lastReply = turn.replies[turn.replies.length - 1];
+      const original = lastReply
+        ? {
+            messageId: lastReply.id,
+            agentId: lastReply.agentId,
+            content: originalContent,
+            confidence: (lastReply.metadata as Record<string, any> | null)?.confidence ?? null,
+          }
+        : null;
+
+      try {
+        const response = await agentEngine.processMessage({
+          agent: currentAgent,
+          conversation: replayConversation,
+          history: [...history],
+          userInput: turn.user.content,
+          metadata: { replayOf: conversation.id },
+          dryRun: true,
+          recordedFunctionCalls: turn.functionCalls,
+        });
+
+        // Compare like with like: replies are stored masked
+        const content = currentAgent.redactPii ? hebrewNLP.redactPII(response.content).text : response.content;
+        turns.push({
+          index,
+          userMessage: turn.user.content,
+          original,
+          replay: {
+            agentId: currentAgent.id,
+            content,
+            confidence: response.confidence,
+            metadata: response.metadata,
+          },
+          changed: content !== originalContent,
+          diff: diffWords(originalContent, content),
+        });
+
+        history.push(
+          this.messageOf(replayConversation, 'USER', turn.user.content, currentAgent.id),
+          this.messageOf(replayConversation, 'ASSISTANT', content, currentAgent.id)
+        );
+
+        // Later turns go to the agent a router handed the conversation to
+        const handoff = response.metadata?.handoff;
+        if (handoff) {
+          const target = await prisma.agent.findUnique({ where: { id: handoff.toAgentId } });
+          if (target) {
+            currentAgent = target;
+            replayConversation = { ...replayConversation, agentId: target.id };
+          }
+        }
+      } catch (error: any) {
+        logger.warn(`Replay of turn ${index} of conversation ${conversation.id} failed`, { error: error.message });
+        turns.push({
+          index,
+          userMessage: turn.user.content,
+          original,
+          replay: null,
+          changed: true,
+          diff: [],
+          error: error.message,
+        });
+
+        // Later turns build on what the user actually saw
+        history.push(turn.user, ...turn.replies);
+      }
+    }
+
+    return {
+      turns,
+      changedTurns: turns.filter(turn => turn.changed).length,
+      truncated: originalTurns.length > MAX_REPLAY_TURNS,
+    };
+  }
+
+  /**
+   * Split messages into user turns with the replies and skill calls that followed each
+   */
+  private groupTurns(messages: Message[]): OriginalTurn[] {
+    const turns: OriginalTurn[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'USER') {
+        turns.push({ user: message, replies: [], functionCalls: [] });
+        continue;
+      }
+
+      const turn = turns[turns.length - 1];
+      if (!turn) {
+        continue;
+      }
+
+      if (message.role === 'ASSISTANT') {
+        turn.replies.push(message);
+      } else if (message.role === 'FUNCTION') {
+        const metadata = (message.metadata as Record<string, any>) || {};
+        let result: any = null;
+        try {
+          result = JSON.parse(message.content);
+        } catch (error) {
+          result = message.content;
+        }
+        turn.functionCalls.push({
+          toolCallId: metadata.toolCallId,
+          skillId: metadata.skillId,
+          name: metadata.name,
+          arguments: metadata.arguments || {},
+          ...(metadata.failed ? { error: result?.error || 'Failed' } : { result }),
+        });
+      }
+    }
+
+    return turns;
+  }
+
+  /**
+   * In-memory message used as history for later turns
+   */
+  private messageOf(conversation: Conversation, role: MessageRole, content: string, agentId: string): Message {
+    return {
+      id: uuidv4(),
+      conversationId: conversation.id,
+      agentId,
+      role,
+      content,
+      encryptedOriginal: null,
+      metadata: null,
+      createdAt: new Date(),
+    };
+  }
+}
+
+export const conversationReplay = new ConversationReplayService();
\ No newline at end of file
@@ -0,0 +1,419 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { Agent, Conversation, EvalCase, EvalResult, EvalRun, EvalSuite, Message, MessageRole } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../database/connection';
+import { logger } from '../utils/logger';
+import { queues } from '../workers/queues';
+import { agentEngine } from './agent-engine';
+import { modelRegistry } from './agent-engine/providers';
+import { cosineSimilarity } from './agent-engine/semantic-cache';
+import { removeNikud } from './hebrew-nlp/nikud';
+import { agentVersions } from './agent-versions';
+import { UsageCollector, usageFromResponse, usageTracker } from './usage';
+import { vectorStore } from './vector-store';
+
+// Type aliases (not interfaces) so criteria and checks can be stored as JSON
+export type EvalCriterion =
+  | { type: 'CONTAINS'; value: string }
+  | { type: 'NOT_CONTAINS'; value: string }
+  | { type: 'REGEX'; pattern: string; flags?: string }
+  | { type: 'SIMILARITY'; expected: string; threshold?: number }
+  | { type: 'LLM_JUDGE'; rubric: string; minScore?: number };
+
+export type CriterionCheck = {
+  type: EvalCriterion['type'];
+  passed: boolean;
+  score?: number;
+  detail?: string;
+};
+
+export interface CaseComparison {
+  caseId: string;
+  caseName: string;
+  base: boolean | null;
+  candidate: boolean | null;
+  change: 'REGRESSED' | 'FIXED' | 'UNCHANGED' | 'ADDED' | 'REMOVED';
+}
+
+const CRITERION_TYPES = ['CONTAINS', 'NOT_CONTAINS', 'REGEX', 'SIMILARITY', 'LLM_JUDGE'];
+
+// Minimum cosine similarity of embeddings for SIMILARITY criteria
+const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+// Minimum judge score (1-5) for LLM_JUDGE criteria
+const DEFAULT_JUDGE_MIN_SCORE = 4;
+
+// Model grading LLM_JUDGE criteria; the agent's own model when not set or unsupported
+const JUDGE_MODEL = process.env.EVAL_JUDGE_MODEL;
+
+export class EvaluationService {
+  /**
+   * Check a case's criteria. Returns an error message, or null when they are usable.
+   */
+  checkCriteria(value: unknown): string | null {
+    if (!Array.isArray(value) || value.length === 0) {
+      return 'Criteria must be a non-empty list';
+    }
+
+    for (const criterion of value) {
+      if (!criterion || !CRITERION_TYPES.includes(criterion.type)) {
+        return `Criterion type must be one of ${CRITERION_TYPES.join(', ')}`;
+      }
+      if ((criterion.type === 'CONTAINS' || criterion.type === 'NOT_CONTAINS') && typeof criterion.value !== 'string') {
+        return `${criterion.type} criteria need a value`;
+      }
+      if (criterion.type === 'REGEX') {
+        try {
+          new RegExp(criterion.pattern, criterion.flags);
+        } catch (error: any) {
+          return `Invalid regular expression: ${error.message}`;
+        }
+      }
+      if (criterion.type === 'SIMILARITY' && typeof criterion.expected !== 'string') {
+        return 'SIMILARITY criteria need an expected answer';
+      }
+      if (criterion.type === 'LLM_JUDGE' && typeof criterion.rubric !== 'string') {
+        return 'LLM_JUDGE criteria need a rubric';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Queue a run of a suite against an agent version (e.g. a draft)
+   */
+  async enqueueRun(suite: EvalSuite, version: number, userId: string): Promise<EvalRun> {
+    const total = await prisma.evalCase.count({ where: { suiteId: suite.id } });
+    const run = await prisma.evalRun.create({
+      data: {
+        suiteId: suite.id,
+        agentVersion: version,
+        total,
+        createdById: userId,
+      },
+    });
+
+    await queues.evaluation.add({ runId: run.id });
+    logger.info(`Evaluation run ${run.id} queued for suite ${suite.id}, version ${version}`);
+
+    return run;
+  }
+
+  /**
+   * Run every case of a queued run and store the results. Called by the worker.
+   */
+  async run(runId: string): Promise<EvalRun> {
+    const run = await prisma.evalRun.findUnique({
+      where: { id: runId },
+      include: {
+        suite: {
+          include: {
+            agent: true,
+            cases: { orderBy: { createdAt: 'asc' } },
+          },
+        },
+      },
+    });
+    if (!run) {
+      throw new Error(`Evaluation run ${runId} not found`);
+    }
+
+    await prisma.evalRun.update({
+      where: { id: runId },
+      data: { status: 'RUNNING', startedAt: new Date(), total: run.suite.cases.length },
+    });
+
+    try {
+      const version = await agentVersions.get(run.suite.agentId, run.agentVersion);
+      if (!version) {
+        throw new Error(`Agent version ${run.agentVersion} not found`);
+      }
+
+      // Evaluate the version's configuration, always with fresh answers
+      const agent: Agent = {
+        ...run.suite.agent,
+        ...agentVersions.configOf(version),
+        publishedVersion: version.version,
+        responseCacheEnabled: false,
+      };
+
+      let passed = 0;
+      for (const evalCase of run.suite.cases) {
+        const result = await this.runCase(run, agent, evalCase);
+        if (result.passed) {
+          passed++;
+        }
+      }
+
+      return await prisma.evalRun.update({
+        where: { id: runId },
+        data: {
+          status: 'COMPLETED',
+          passed,
+          failed: run.suite.cases.length - passed,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error: any) {
+      logger.error(`Evaluation run ${runId} failed:`, error);
+      return prisma.evalRun.update({
+        where: { id: runId },
+        data: { status: 'FAILED', error: error.message, completedAt: new Date() },
+      });
+    }
+  }
+
+  /**
+   * Compare two runs of the same suite case by case
+   */
+  compare(
+    base: EvalRun & { results: EvalResult[] },
+    candidate: EvalRun & { results: EvalResult[] }
+  ): { passRateDelta: number; regressions: number; fixes: number; cases: CaseComparison[] } {
+    const baseResults = new Map(base.results.map(result => [result.caseId, result]));
+    const candidateResults = new Map(candidate.results.map(result => [result.caseId, result]));
+    const caseIds = [...new Set([...baseResults.keys(), ...candidateResults.keys()])];
+
+    const cases = caseIds.map((caseId): CaseComparison => {
+      const before = baseResults.get(caseId);
+      const after = candidateResults.get(caseId);
+      const change = !before ? 'ADDED'
+        : !after ? 'REMOVED'
+        : before.passed && !after.passed ? 'REGRESSED'
+        : !before.passed && after.passed ? 'FIXED'
+        : 'UNCHANGED';
+
+      return {
+        caseId,
+        caseName: (after || before)!.caseName,
+        base: before ? before.passed : null,
+        candidate: after ? after.passed : null,
+        change,
+      };
+    });
+
+    return {
+      passRateDelta: Math.round((passRate(candidate) - passRate(base)) * 10) / 10,
+      regressions: cases.filter(item => item.change === 'REGRESSED').length,
+      fixes: cases.filter(item => item.change === 'FIXED').length,
+      cases,
+    };
+  }
+
+  /**
+   * Play a case's turns as a dry run in an in-memory conversation and check the
+   * last reply. Nothing is stored, the conversation is never transferred, and
+   * skills with side effects are not run.
+   */
+  private async runCase(run: EvalRun, agent: Agent, evalCase: EvalCase): Promise<EvalResult> {
+    const started = Date.now();
+    let conversation: Conversation = {
+      id: uuidv4(),
+      agentId: agent.id,
+      userId: null,
+      channel: 'eval',
+      externalUserId: null,
+      status: 'ACTIVE',
+      metadata: { isTest: true, evalRunId: run.id },
+      startedAt: new Date(),
+      endedAt: null,
+    };
+    const history: Message[] = [];
+    let currentAgent = agent;
+
+    let reply: string | undefined;
+    let checks: CriterionCheck[] = [];
+    let error: string | undefined;
+    let cost = 0;
+
+    try {
+      for (const turn of evalCase.turns) {
+        const response = await agentEngine.processMessage({
+          agent: currentAgent,
+          conversation,
+          history: [...history],
+          userInput: turn,
+          metadata: { isTest: true },
+          dryRun: true,
+        });
+        reply = response.content;
+        cost += response.metadata?.usage?.cost || 0;
+
+        history.push(
+          messageOf(conversation, 'USER', turn, currentAgent.id),
+          messageOf(conversation, 'ASSISTANT', response.content, currentAgent.id)
+        );
+
+        // Later turns go to the agent a router handed the conversation to
+        const handoff = response.metadata?.handoff;
+        if (handoff) {
+          const target = await prisma.agent.findUnique({ where: { id: handoff.toAgentId } });
+          if (target) {
+            currentAgent = target;
+            conversation = { ...conversation, agentId: target.id };
+          }
+        }
+      }
+
+      const usage = new UsageCollector();
+      checks = await this.checkReply(reply || '', evalCase, agent, usage);
+      cost += usage.totals().cost;
+      await usageTracker.record(usage.entries, {
+        organizationId: agent.organizationId,
+        agentId: agent.id,
+      });
+    } catch (caseError: any) {
+      logger.warn(`Evaluation case ${evalCase.id} failed to run`, { error: caseError.message });
+      error = caseError.message;
+    }
+
+    return prisma.evalResult.create({
+      data: {
+        runId: run.id,
+        caseId: evalCase.id,
+        caseName: evalCase.name,
+        passed: !error && checks.every(check => check.passed),
+        reply,
+        checks,
+        error,
+        durationMs: Date.now() - started,
+        cost,
+      },
+    });
+  }
+
+  /**
+   * Check a reply against each of the case's criteria
+   */
+  private async checkReply(
+    reply: string,
+    evalCase: EvalCase,
+    agent: Agent,
+    usage: UsageCollector
+  ): Promise<CriterionCheck[]> {
+    const criteria = evalCase.criteria as EvalCriterion[];
+    const checks: CriterionCheck[] = [];
+
+    for (const criterion of criteria) {
+      switch (criterion.type) {
+        case 'CONTAINS':
+        case 'NOT_CONTAINS': {
+          const found = normalize(reply).includes(normalize(criterion.value));
+          checks.push({
+            type: criterion.type,
+            passed: criterion.type === 'CONTAINS' ? found : !found,
+            detail: criterion.value,
+          });
+          break;
+        }
+
+        case 'REGEX':
+          checks.push({
+            type: criterion.type,
+            passed: new RegExp(criterion.pattern, criterion.flags).test(reply),
+            detail: criterion.pattern,
+          });
+          break;
+
+        case 'SIMILARITY': {
+          const [replyEmbedding, expectedEmbedding] = await Promise.all([
+            vectorStore.embedQuery(reply, usage),
+            vectorStore.embedQuery(criterion.expected, usage),
+          ]);
+          const score = Math.round(cosineSimilarity(replyEmbedding, expectedEmbedding) * 1000) / 1000;
+          checks.push({
+            type: criterion.type,
+            passed: score >= (criterion.threshold ?? DEFAULT_SIMILARITY_THRESHOLD),
+            score,
+          });
+          break;
+        }
+
+        case 'LLM_JUDGE': {
+          const verdict = await this.judge(reply, criterion.rubric, evalCase.turns, agent, usage);
+          checks.push({
+            type: criterion.type,
+            passed: verdict.score >= (criterion.minScore ?? DEFAULT_JUDGE_MIN_SCORE),
+            score: verdict.score,
+            detail: verdict.reasoning,
+          });
+          break;
+        }
+      }
+    }
+
+    return checks;
+  }
+
+  /**
+   * Have a model grade the reply against a rubric on a 1-5 scale
+   */
+  private async judge(
+    reply: string,
+    rubric: string,
+    turns: string[],
+    agent: Agent,
+    usage: UsageCollector
+  ): Promise<{ score: number; reasoning: string }> {
+    const modelName = JUDGE_MODEL && modelRegistry.isSupported(JUDGE_MODEL) ? JUDGE_MODEL : agent.model;
+    const prompt = [
+      new SystemMessage(
+        'אתה בודק איכות של תשובות סוכן שירות. דרג את התשובה האחרונה של הסוכן לפי הקריטריונים, ' +
+        'בסולם של 1 (לא עומדת כלל) עד 5 (עומדת במלואם). ' +
+        'החזר JSON בלבד במבנה {"score": <1-5>, "reasoning": "<הסבר קצר>"}.'
+      ),
+      new HumanMessage(
+        `קריטריונים:\n${rubric}\n\nהודעות המשתמש:\n${turns.map(turn => `- ${turn}`).join('\n')}\n\nתשובת הסוכן:\n${reply}`
+      ),
+    ];
+
+    const definition = modelRegistry.resolve(modelName);
+    const model = modelRegistry.getChatModel(modelName, { temperature: 0, maxTokens: 300 });
+    const response = await model.invoke(prompt, {
+      ...(definition.supportsJsonMode && { response_format: { type: 'json_object' } }),
+    });
+    usage.add('CHAT', modelName, usageFromResponse(response, prompt));
+
+    const match = response.content.toString().match(/\{[\s\S]*\}/);
+    try {
+      const verdict = JSON.parse(match ? match[0] : '');
+      const score = Number(verdict.score);
+      return {
+        score: Number.isFinite(score) ? Math.min(Math.max(score, 1), 5) : 1,
+        reasoning: typeof verdict.reasoning === 'string' ? verdict.reasoning : '',
+      };
+    } catch (error) {
+      return { score: 1, reasoning: 'Unreadable judge verdict' };
+    }
+  }
+}
+
+function passRate(run: EvalRun): number {
+  return run.total > 0 ? (run.passed / run.total) * 100 : 0;
+}
+
+/**
+ * Lowercase and strip nikud so wording checks ignore vocalization
+ */
+function normalize(text: string): string {
+  return removeNikud(text).toLowerCase();
+}
+
+/**
+ * A message of an in-memory evaluation conversation
+ */
+function messageOf(conversation: Conversation, role: MessageRole, content: string, agentId: string): Message {
+  return {
+    id: uuidv4(),
+    conversationId: conversation.id,
+    agentId,
+    role,
+    content,
+    encryptedOriginal: null,
+    metadata: null,
+    createdAt: new Date(),
+  };
+}
+
+export const evaluationService = new EvaluationService();
\ No newline at end of file
@@ -0,0 +1,231 @@
+import { Agent, Conversation, Prisma } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../database/connection';
+import { logger } from '../utils/logger';
+import { agentVersions } from './agent-versions';
+
+export type ExperimentVariant = 'A' | 'B';
+
+// Type aliases (not interfaces) so experiments and assignments can be stored as JSON
+export type ExperimentConfig = {
+  id: string;
+  name?: string;
+  // Agent version answering each variant's conversations; A is the control
+  versions: Record<ExperimentVariant, number>;
+  // Percentage of new conversations assigned to variant B
+  weight: number;
+  startedAt: string;
+  endedAt?: string;
+};
+
+// Stored on Conversation.metadata.experiment
+export type ExperimentAssignment = {
+  id: string;
+  agentId: string;
+  variant: ExperimentVariant;
+  version: number;
+};
+
+export interface Estimate {
+  value: number;
+  // 95% confidence interval
+  interval: [number, number];
+}
+
+export interface VariantResults {
+  variant: ExperimentVariant;
+  version: number;
+  conversations: number;
+  resolutionRate: Estimate;
+  transferRate: Estimate;
+  // Average conversation sentiment (-1 to 1), from analyzed conversations only
+  sentiment: Estimate & { samples: number };
+  costPerConversation: Estimate;
+}
+
+// z-score of a two-sided 95% confidence interval
+const Z_95 = 1.96;
+
+export class ExperimentService {
+  /**
+   * Start an experiment, replacing any earlier one of the agent
+   */
+  async start(
+    agent: Agent,
+    options: { name?: string; controlVersion: number; variantVersion: number; weight: number }
+  ): Promise<ExperimentConfig> {
+    const experiment: ExperimentConfig = {
+      id: uuidv4(),
+      name: options.name,
+      versions: { A: options.controlVersion, B: options.variantVersion },
+      weight: options.weight,
+      startedAt: new Date().toISOString(),
+    };
+
+    await prisma.agent.update({
+      where: { id: agent.id },
+      data: { experiment },
+    });
+
+    logger.info(`Experiment ${experiment.id} started for agent ${agent.id}`, { versions: experiment.versions });
+    return experiment;
+  }
+
+  /**
+   * Stop assigning new conversations. Assigned conversations keep their variant,
+   * and results stay available until the next experiment starts.
+   */
+  async stop(agent: Agent): Promise<ExperimentConfig | null> {
+    const experiment = experimentOf(agent);
+    if (!experiment || experiment.endedAt) {
+      return experiment;
+    }
+
+    const stopped: ExperimentConfig = { ...experiment, endedAt: new Date().toISOString() };
+    await prisma.agent.update({
+      where: { id: agent.id },
+      data: { experiment: stopped },
+    });
+
+    logger.info(`Experiment ${experiment.id} stopped for agent ${agent.id}`);
+    return stopped;
+  }
+
+  /**
+   * Pick a variant for a new conversation with the agent, or null when no experiment is running
+   */
+  assign(agent: Agent): ExperimentAssignment | null {
+    const experiment = experimentOf(agent);
+    if (!experiment || experiment.endedAt) {
+      return null;
+    }
+
+    const variant: ExperimentVariant = Math.random() * 100 < experiment.weight ? 'B' : 'A';
+    return {
+      id: experiment.id,
+      agentId: agent.id,
+      variant,
+      version: experiment.versions[variant],
+    };
+  }
+
+  /**
+   * The agent configuration that answers a conversation: the assigned variant's
+   * version when the conversation is part of an experiment of this agent
+   */
+  async agentFor(agent: Agent, conversation: Conversation): Promise<Agent> {
+    const assignment = assignmentOf(conversation);
+    if (!assignment || assignment.agentId !== agent.id || assignment.version === agent.publishedVersion) {
+      return agent;
+    }
+
+    const version = await agentVersions.get(agent.id, assignment.version);
+    if (!version) {
+      logger.warn(`Experiment version ${assignment.version} of agent ${agent.id} not found, using published version`);
+      return agent;
+    }
+
+    return { ...agent, ...agentVersions.configOf(version), publishedVersion: version.version };
+  }
+
+  /**
+   * Resolution rate, transfer rate, sentiment and cost of each variant
+   */
+  async results(experiment: ExperimentConfig): Promise<VariantResults[]> {
+    const rows = await prisma.$queryRaw<any[]>`
+      SELECT
+        c.metadata->'experiment'->>'variant' as variant,
+        COUNT(*) as conversations,
+        COUNT(CASE WHEN c.metadata->>'resolved' = 'true' THEN 1 END) as resolved,
+        COUNT(CASE WHEN c.status = 'TRANSFERRED' THEN 1 END) as transferred,
+        COUNT(c.metadata->'analysis'->'sentiment'->'score') as sentiment_samples,
+        AVG((c.metadata->'analysis'->'sentiment'->>'score')::float) as avg_sentiment,
+        STDDEV_SAMP((c.metadata->'analysis'->'sentiment'->>'score')::float) as sentiment_stddev,
+        AVG(COALESCE(u.cost, 0)) as avg_cost,
+        STDDEV_SAMP(COALESCE(u.cost, 0)) as cost_stddev
+      FROM conversations c
+      LEFT JOIN LATERAL (
+        SELECT SUM(r.cost) as cost
+        FROM usage_records r
+        WHERE r."conversation_id" = c.id
+      ) u ON true
+      WHERE c.metadata->'experiment'->>'id' = ${experiment.id}
+      GROUP BY variant
+    `;
+
+    return (['A', 'B'] as ExperimentVariant[]).map(variant => {
+      const row = rows.find(candidate => candidate.variant === variant) || {};
+      const conversations = parseInt(row.conversations) || 0;
+      const sentimentSamples = parseInt(row.sentiment_samples) || 0;
+
+      return {
+        variant,
+        version: experiment.versions[variant],
+        conversations,
+        resolutionRate: proportionEstimate(parseInt(row.resolved) || 0, conversations),
+        transferRate: proportionEstimate(parseInt(row.transferred) || 0, conversations),
+        sentiment: {
+          ...meanEstimate(Number(row.avg_sentiment) || 0, Number(row.sentiment_stddev) || 0, sentimentSamples, 3),
+          samples: sentimentSamples,
+        },
+        costPerConversation: meanEstimate(Number(row.avg_cost) || 0, Number(row.cost_stddev) || 0, conversations, 6),
+      };
+    });
+  }
+}
+
+/**
+ * The agent's current or last experiment
+ */
+export function experimentOf(agent: Pick<Agent, 'experiment'>): ExperimentConfig | null {
+  return (agent.experiment as ExperimentConfig | null) || null;
+}
+
+/**
+ * The experiment variant a conversation was assigned to
+ */
+export function assignmentOf(conversation: Conversation): ExperimentAssignment | null {
+  const metadata = conversation.metadata as Prisma.JsonObject | null;
+  return (metadata?.experiment as ExperimentAssignment | undefined) || null;
+}
+
+/**
+ * Rate in percent with a Wilson score interval, which stays sensible for small samples
+ */
+function proportionEstimate(successes: number, total: number): Estimate {
+  if (total === 0) {
+    return { value: 0, interval: [0, 0] };
+  }
+
+  const rate = successes / total;
+  const denominator = 1 + (Z_95 * Z_95) / total;
+  const center = (rate + (Z_95 * Z_95) / (2 * total)) / denominator;
+  const margin = (Z_95 * Math.sqrt((rate * (1 - rate)) / total + (Z_95 * Z_95) / (4 * total * total))) / denominator;
+
+  return {
+    value: round(rate * 100, 1),
+    interval: [round(Math.max(0, center - margin) * 100, 1), round(Math.min(1, center + margin) * 100, 1)],
+  };
+}
+
+/**
+ * Mean with a normal-approximation interval
+ */
+function meanEstimate(mean: number, stddev: number, samples: number, decimals: number): Estimate {
+  if (samples === 0) {
+    return { value: 0, interval: [0, 0] };
+  }
+
+  const margin = samples > 1 ? (Z_95 * stddev) / Math.sqrt(samples) : 0;
+  return {
+    value: round(mean, decimals),
+    interval: [round(mean - margin, decimals), round(mean + margin, decimals)],
+  };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export const experiments = new ExperimentService();
\ No newline at end of file
@@ -0,0 +1,93 @@
+/**
+ * Offline lists of Israeli places, organizations and names for entity
+ * recognition. Entries are written without prefixes or nikud, gershayim as ".
+ */
+
+export const CITIES = [
+  'ירושלים', 'תל אביב', 'תל אביב יפו', 'יפו', 'חיפה', 'באר שבע', 'ראשון לציון', 'פתח תקווה',
+  'פתח תקוה', 'אשדוד', 'נתניה', 'חולון', 'בני ברק', 'רמת גן', 'בת ים', 'אשקלון', 'רחובות',
+  'הרצליה', 'כפר סבא', 'חדרה', 'מודיעין', 'מודיעין מכבים רעות', 'לוד', 'רמלה', 'רעננה',
+  'נצרת', 'בית שמש', 'ראש העין', 'הוד השרון', 'גבעתיים', 'קריית אתא', 'קריית גת', 'קריית שמונה',
+  'קריית ביאליק', 'קריית מוצקין', 'קריית ים', 'קריית אונו', 'נהריה', 'עכו', 'אילת', 'טבריה',
+  'עפולה', 'צפת', 'כרמיאל', 'דימונה', 'ערד', 'אופקים', 'נתיבות', 'שדרות', 'יבנה', 'נס ציונה',
+  'אור יהודה', 'יהוד', 'גבעת שמואל', 'רמת השרון', 'זכרון יעקב', 'בית שאן', 'מעלות תרשיחא',
+  'מעלה אדומים', 'אריאל', 'ביתר עילית', 'מודיעין עילית', 'אום אל פחם', 'רהט', 'טייבה', 'שפרעם',
+  'סח\'נין', 'טירת כרמל', 'נשר', 'יקנעם', 'מגדל העמק', 'קצרין', 'מטולה', 'אלעד', 'גדרה', 'קיסריה',
+];
+
+// City names that are also common words ("שדרות", "רחובות") or first names ("אריאל"),
+// found with a lower confidence
+export const AMBIGUOUS_CITIES = new Set(['שדרות', 'רחובות', 'אופקים', 'נתיבות', 'אריאל', 'נשר', 'ערד']);
+
+export const STREETS = [
+  'הרצל', 'רוטשילד', 'בן יהודה', 'דיזנגוף', 'אלנבי', 'ויצמן', 'ז\'בוטינסקי', 'בגין', 'מנחם בגין',
+  'רבין', 'יצחק רבין', 'בן גוריון', 'דוד בן גוריון', 'יפו', 'קינג ג\'ורג\'', 'המלך ג\'ורג\'',
+  'אבן גבירול', 'הנשיא', 'העצמאות', 'הרב קוק', 'ביאליק', 'סוקולוב', 'אחד העם', 'שנקין',
+  'ארלוזורוב', 'נורדאו', 'בלפור', 'הנביאים', 'יהודה הלוי', 'השלום', 'הזית', 'האלון', 'הגפן',
+  'התאנה', 'הרימון', 'הדקל', 'הברוש', 'האורן', 'הרצוג', 'חיים הרצוג', 'קפלן', 'ההסתדרות',
+  'הבנים', 'הגליל', 'הנגב', 'הכרמל', 'עזה', 'אגריפס', 'הרכבת', 'התעשייה',
+  'המסגר', 'לה גוארדיה', 'ירושלים', 'הפלמ"ח', 'משה דיין', 'גולדה מאיר', 'רש"י', 'רמב"ם',
+];
+
+// Words that introduce a street name
+export const STREET_KEYWORDS = new Set(['רחוב', 'רח\'', 'שדרות', 'שד\'', 'דרך', 'סמטת', 'סמ\'', 'כיכר', 'ככר']);
+
+export const ORGANIZATIONS = [
+  'צה"ל', 'משטרת ישראל', 'המשטרה', 'שב"כ', 'מד"א', 'מגן דוד אדום', 'כבאות והצלה',
+  'ביטוח לאומי', 'המוסד לביטוח לאומי', 'מס הכנסה', 'רשות המסים', 'מע"מ', 'רשות האוכלוסין',
+  'משרד הפנים', 'משרד הבריאות', 'משרד החינוך', 'משרד התחבורה', 'משרד האוצר', 'משרד הביטחון',
+  'משרד החוץ', 'משרד המשפטים', 'משרד הרווחה', 'הכנסת', 'בית המשפט העליון', 'בנק ישראל',
+  'בנק הפועלים', 'בנק לאומי', 'בנק דיסקונט', 'בנק מזרחי', 'מזרחי טפחות', 'בנק מזרחי טפחות',
+  'הבנק הבינלאומי', 'בנק יהב', 'בנק ירושלים', 'דואר ישראל', 'רכבת ישראל', 'חברת החשמל',
+  'מקורות', 'בזק', 'פרטנר', 'סלקום', 'הוט', 'פלאפון', 'גולן טלקום', 'אל על', 'ישראייר', 'ארקיע',
+  'כללית', 'קופת חולים כללית', 'מכבי', 'מכבי שירותי בריאות', 'מאוחדת', 'לאומית', 'שופרסל',
+  'רמי לוי', 'ויקטורי', 'יוחננוף', 'אושר עד', 'סופר פארם', 'איקאה', 'ישראכרט', 'מקס', 'כאל',
+  'אגד', 'דן', 'מטרופולין', 'האוניברסיטה העברית', 'אוניברסיטת תל אביב', 'הטכניון', 'מכון ויצמן',
+  'אוניברסיטת בן גוריון', 'אוניברסיטת חיפה', 'אוניברסיטת בר אילן', 'הסוכנות היהודית',
+];
+
+// Organization names that are also common words or first names, found with a lower confidence
+export const AMBIGUOUS_ORGANIZATIONS = new Set(['מקורות', 'הוט', 'מקס', 'כאל', 'דן', 'לאומית', 'כללית', 'מכבי']);
+
+// Words that make the following name an organization: "עיריית חיפה"
+export const ORGANIZATION_PREFIXES = new Set(['עיריית', 'עירית', 'מועצת', 'אוניברסיטת', 'מכללת']);
+
+export const FIRST_NAMES = [
+  'אברהם', 'יצחק', 'יעקב', 'משה', 'אהרון', 'דוד', 'שלמה', 'יוסף', 'דניאל', 'מיכאל', 'אריאל',
+  'איתי', 'יונתן', 'יהונתן', 'נועם', 'עומר', 'אורי', 'עידו', 'יואב', 'איתן', 'אלון', 'אמיר',
+  'אבי', 'אביב', 'בני', 'גיל', 'דני', 'יוסי', 'מוטי', 'ניר', 'רועי', 'שמעון', 'שמואל',
+  'חיים', 'מאיר', 'מנחם', 'נתן', 'עמית', 'רונן', 'שגיא', 'תומר', 'גיא', 'אסף', 'ערן', 'רמי',
+  'מוחמד', 'אחמד', 'עלי', 'מחמוד', 'יוסוף', 'עומאר', 'חסן', 'סמיר', 'ג\'ורג\'', 'איגור', 'דמיטרי',
+  'שרה', 'רבקה', 'רחל', 'לאה', 'מרים', 'אסתר', 'רות', 'נועה', 'מאיה', 'תמר', 'יעל', 'מיכל',
+  'שירה', 'אביגיל', 'הילה', 'ליאת', 'מירב', 'אורית', 'דנה', 'רונית', 'סיגל', 'אפרת', 'קרן',
+  'עינב', 'הדס', 'נעמה', 'טליה', 'אילנה', 'יהודית', 'חנה', 'דבורה', 'ציפי', 'אתי', 'פאטמה',
+  'ליה', 'אלה', 'רוני', 'נטע', 'שני', 'ענבל', 'אורלי', 'מורן', 'סתיו', 'יעלי', 'שלי',
+  'דן', 'טל', 'אור', 'שחר', 'גל', 'רון', 'חן', 'נוי', 'שי', 'עדי', 'אילן', 'ים', 'בר', 'שקד', 'רז',
+];
+
+// First names that are also common words; only a person with a last name or title
+export const AMBIGUOUS_FIRST_NAMES = new Set([
+  'דן', 'טל', 'אור', 'שחר', 'גל', 'רון', 'חן', 'נוי', 'שי', 'עדי', 'אילן', 'ים', 'בר', 'שקד', 'רז',
+  'אביב', 'בני', 'שלי', 'סתיו', 'גיל', 'אלה', 'ליה', 'רות', 'נטע', 'שני', 'חיים', 'נתן', 'מאיר',
+  'קרן', 'שלמה', 'אבי', 'עלי', 'אתי', 'תמר', 'שירה', 'הדס', 'אסף', 'עמית', 'אלון',
+]);
+
+export const LAST_NAMES = [
+  'כהן', 'לוי', 'מזרחי', 'פרץ', 'ביטון', 'דהן', 'אברהם', 'פרידמן', 'אגבריה', 'מלכה', 'אזולאי',
+  'כץ', 'יוסף', 'דוד', 'עמר', 'אוחיון', 'חדד', 'גבאי', 'בן דוד', 'אדרי', 'שפירא', 'גולן',
+  'מרקוביץ', 'רוזנברג', 'קליין', 'שטרן', 'וייס', 'גרינברג', 'אשכנזי', 'ברק', 'שרון', 'בן חיים',
+  'בן שושן', 'אלמוג', 'שמעוני', 'גולדשטיין', 'רביבו', 'סויסה', 'חסון', 'נחום', 'בן עמי', 'טל',
+  'ישראלי', 'אלון', 'בן גוריון', 'הרצוג', 'נתניהו', 'רבין', 'פרס', 'שמיר', 'בגין', 'מאיר',
+  'חורי', 'עבאס', 'ח\'טיב', 'מנסור', 'נסר', 'סלאמה', 'ג\'בארין', 'עודה', 'מסאלחה', 'זועבי',
+];
+
+// Titles before a person's name
+export const HONORIFICS = new Set([
+  'מר', 'גב\'', 'גברת', 'ד"ר', 'דוקטור', 'פרופ\'', 'פרופסור', 'עו"ד', 'רו"ח', 'הרב', 'השר', 'השרה',
+]);
+
+export const HOLIDAYS = [
+  'ראש השנה', 'יום כיפור', 'יום הכיפורים', 'סוכות', 'שמחת תורה', 'חנוכה', 'ט"ו בשבט', 'פורים',
+  'פסח', 'יום השואה', 'יום הזיכרון', 'יום העצמאות', 'ל"ג בעומר', 'יום ירושלים', 'חג השבועות',
+  'תשעה באב', 'ט\' באב', 'ערב חג', 'חול המועד',
+];
\ No newline at end of file
@@ -1,40 +1,55 @@
 import axios from 'axios';
 import { logger } from '../../utils/logger';
+import { PIIMatch, PlaceholderCounts, RedactionResult, detectPII, redactPII } from './pii';
+import { Token, tokenize } from './tokenizer';
+import { isKnownForm, lemmatizeToken } from './lemmatizer';
+import { isFunctionWord } from './lexicon';
+import { Entity, EntityRecognizer, RemoteEntityRecognizer, recognizeEntities, resolveOverlaps } from './ner';
+import { SentimentResult, analyzeSentiment } from './sentiment';
+import { DictionaryNikudProvider, NikudProvider, RemoteNikudProvider, removeNikud } from './nikud';
+
+export type { Entity, EntityRecognizer, EntityType } from './ner';
+export type { SentenceSentiment, SentimentLabel, SentimentResult } from './sentiment';
+export type { NikudProvider } from './nikud';
 
 export interface HebrewTextAnalysis {
   text: string;
+  // Whitespace, quotation marks and final letters fixed; nikud kept
   normalizedText: string;
+  // normalizedText without nikud, on one line; tokens, lemmas, entities and sentiment come from it
+  matchKey: string;
   tokens: string[];
-  nikud?: string;
+  // Lemma of each token, e.g. "הזמנה" for "והזמנותיי"
+  lemmas: string[];
   entities: Entity[];
   sentiment: SentimentResult;
   language: string;
   isHebrew: boolean;
 }
 
-export interface Entity {
-  text: string;
-  type: 'PERSON' | 'LOCATION' | 'ORGANIZATION' | 'DATE' | 'NUMBER' | 'OTHER';
-  startIndex: number;
-  endIndex: number;
-  confidence: number;
-}
-
-export interface SentimentResult {
-  score: number; // -1 to 1
-  label: 'positive' | 'negative' | 'neutral';
-  confidence: number;
-}
-
 export class HebrewNLPService {
   private baseUrl: string;
   private enableNikud: boolean;
   private enableSpellCheck: boolean;
+  private entityRecognizers: EntityRecognizer[] = [];
+  // Tried in order until one succeeds
+  private nikudProviders: NikudProvider[] = [];
 
   constructor() {
     this.baseUrl = process.env.HEBREW_NLP_SERVICE_URL || 'http://localhost:5000';
     this.enableNikud = process.env.ENABLE_NIKUD === 'true';
     this.enableSpellCheck = process.env.ENABLE_SPELL_CHECK === 'true';
+
+    // The remote model only runs when a service is configured; the offline recognizers always do
+    if (process.env.HEBREW_NLP_SERVICE_URL) {
+      this.entityRecognizers.push(new RemoteEntityRecognizer(this.baseUrl));
+    }
+
+    // The dictionary only knows common words, so it is the fallback when a service is configured
+    if (this.enableNikud && process.env.HEBREW_NLP_SERVICE_URL) {
+      this.nikudProviders.push(new RemoteNikudProvider(this.baseUrl));
+    }
+    this.nikudProviders.push(new DictionaryNikudProvider());
   }
 
   /**
@@ -48,37 +63,37 @@ export class HebrewNLPService {
         return {
           text,
           normalizedText: text,
+          matchKey: text,
           tokens: text.split(' '),
+          lemmas: this.lemmatize(text),
           entities: [],
-          sentiment: { score: 0, label: 'neutral', confidence: 0 },
+          // Only emoji and emoticons carry sentiment in other languages
+          sentiment: await this.analyzeSentiment(text),
           language: 'en',
           isHebrew: false
         };
       }
 
-      // Normalize text
+      // Normalize text, and strip nikud so vocalized text is analyzed like plain text
       const normalizedText = this.normalizeHebrewText(text);
+      const matchKey = this.normalizeForMatching(text);
 
       // Tokenize
-      const tokens = await this.tokenize(normalizedText);
+      const tokens = await this.tokenize(matchKey);
+      const lemmas = this.lemmatize(matchKey);
 
       // Extract entities
-      const entities = await this.extractEntities(normalizedText);
+      const entities = await this.extractEntities(matchKey);
 
       // Analyze sentiment
-      const sentiment = await this.analyzeSentiment(normalizedText);
-
-      // Add nikud if enabled
-      let nikudText;
-      if (this.enableNikud) {
-        nikudText = await this.addNikud(normalizedText);
-      }
+      const sentiment = await this.analyzeSentiment(matchKey);
 
       return {
         text,
         normalizedText,
+        matchKey,
         tokens,
-        nikud: nikudText,
+        lemmas,
         entities,
         sentiment,
         language: 'he',
@@ -90,6 +105,21 @@ export class HebrewNLPService {
     }
   }
 
+  /**
+   * Find Israeli ID numbers, payment cards, phone numbers and addresses in text
+   */
+  detectPII(text: string): PIIMatch[] {
+    return detectPII(text);
+  }
+
+  /**
+   * Mask personal details in text with placeholders such as [PHONE_1],
+   * numbered after the earlier counts and reusing the known matches' placeholders
+   */
+  redactPII(text: string, earlier?: PlaceholderCounts, known?: PIIMatch[]): RedactionResult {
+    return redactPII(text, earlier, known);
+  }
+
   /**
    * Check if text contains Hebrew characters
    */
@@ -99,24 +129,42 @@ export class HebrewNLPService {
   }
 
   /**
-   * Normalize Hebrew text
+   * Normalize Hebrew text. Nikud is kept; compare text with normalizeForMatching.
    */
   normalizeHebrewText(text: string): string {
-    // Remove excessive whitespace
-    let normalized = text.replace(/\s+/g, ' ').trim();
-    
-    // Fix common Hebrew typing issues
-    normalized = normalized
-      .replace(/״/g, '"') // Replace Hebrew quotation marks
-      .replace(/׳/g, "'") // Replace Hebrew apostrophe
-      .replace(/־/g, '-'); // Replace Hebrew hyphen
-    
+    let normalized = this.normalizeTypography(text);
+
+    // Replace Hebrew hyphen
+    normalized = normalized.replace(/־/g, '-');
+
     // Handle final letters
     normalized = this.fixFinalLetters(normalized);
-    
+
     return normalized;
   }
 
+  /**
+   * Collapse excessive whitespace, keeping line breaks, and replace Hebrew
+   * quotation marks and apostrophes. Leaves the wording and nikud as written.
+   */
+  normalizeTypography(text: string): string {
+    return text
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/ ?\n ?/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+      .replace(/״/g, '"') // Replace Hebrew quotation marks
+      .replace(/׳/g, "'"); // Replace Hebrew apostrophe
+  }
+
+  /**
+   * Key for comparing, searching and caching text: normalized, without nikud,
+   * on one line, so vocalized text matches plain text
+   */
+  normalizeForMatching(text: string): string {
+    return removeNikud(this.normalizeHebrewText(text)).replace(/\s+/g, ' ').trim();
+  }
+
   /**
    * Fix Hebrew final letters
    */
@@ -145,13 +193,11 @@ export class HebrewNLPService {
   }
 
   /**
-   * Tokenize Hebrew text
+   * Tokenize Hebrew text into base forms, without prefixes ("ובבית" → "בית")
    */
   async tokenize(text: string): Promise<string[]> {
     try {
-      // For now, simple tokenization. In production, use proper Hebrew tokenizer
-      const tokens = text.split(/\s+/);
-      return tokens.filter(token => token.length > 0);
+      return this.segment(text).map(token => token.base);
     } catch (error) {
       logger.error('Tokenization failed:', error);
       return text.split(' ');
@@ -159,35 +205,51 @@ export class HebrewNLPService {
   }
 
   /**
-   * Extract named entities from Hebrew text
+   * Split text into tokens with their prefixes, base forms and offsets into the text
+   */
+  segment(text: string): Token[] {
+    // Inflected forms of known words count as known, so "והזמנות" loses its ו
+    return tokenize(text, { isKnownWord: isKnownForm });
+  }
+
+  /**
+   * Lemma of each token: without prefixes, plural and possessive suffixes or verb
+   * inflection, so "הזמנות", "הזמנתי" and "להזמנה" all give "הזמנה". Runs offline.
+   */
+  lemmatize(text: string): string[] {
+    return this.segment(text).map(token => lemmatizeToken(token));
+  }
+
+  /**
+   * Distinct lemmas that carry meaning, for keyword search and topics:
+   * function words and numbers are left out
+   */
+  keywords(text: string): string[] {
+    const keywords = this.segment(text)
+      .filter(token => token.type === 'WORD' || token.type === 'ACRONYM' ||
+        (token.type === 'LATIN' && token.base.length > 2))
+      .map(token => lemmatizeToken(token))
+      .filter(lemma => lemma.length > 1 && !isFunctionWord(lemma));
+    return [...new Set(keywords)];
+  }
+
+  /**
+   * Extract named entities from Hebrew text: gazetteer names, dates, amounts,
+   * phone numbers and emails, merged with any registered recognizer's results.
+   * Where entities overlap the most confident one is kept.
    */
   async extractEntities(text: string): Promise<Entity[]> {
     try {
-      // In production, integrate with Hebrew NER service
-      // For now, return mock data
-      const entities: Entity[] = [];
-      
-      // Simple pattern matching for demonstration
-      const patterns = [
-        { regex: /\d{2}\/\d{2}\/\d{4}/g, type: 'DATE' as const },
-        { regex: /\d+/g, type: 'NUMBER' as const },
-        { regex: /[א-ת]+ [א-ת]+/g, type: 'PERSON' as const } // Very simple Hebrew name pattern
-      ];
-
-      for (const pattern of patterns) {
-        let match;
-        while ((match = pattern.regex.exec(text)) !== null) {
-          entities.push({
-            text: match[0],
-            type: pattern.type,
-            startIndex: match.index,
-            endIndex: match.index + match[0].length,
-            confidence: 0.8
-          });
-        }
-      }
+      const entities = recognizeEntities(text, this.segment(text));
 
-      return entities;
+      const external = await Promise.all(this.entityRecognizers.map(recognizer =>
+        recognizer.recognize(text).catch(error => {
+          logger.warn(`Entity recognizer ${recognizer.name} failed`, { error: error.message });
+          return [];
+        })
+      ));
+
+      return resolveOverlaps([...entities, ...external.flat()]);
     } catch (error) {
       logger.error('Entity extraction failed:', error);
       return [];
@@ -195,39 +257,59 @@ export class HebrewNLPService {
   }
 
   /**
-   * Analyze sentiment of Hebrew text
+   * Add a source of entities, e.g. a domain-specific model, to extractEntities
+   */
+  registerEntityRecognizer(recognizer: EntityRecognizer): void {
+    this.entityRecognizers.push(recognizer);
+  }
+
+  /**
+   * Analyze sentiment of Hebrew text, per sentence and overall. Runs offline
+   * with a lexicon that covers slang and emoji, and handles negation ("לא רע"),
+   * intensifiers and sarcasm ("יופי, עוד פעם לא הגיע").
    */
   async analyzeSentiment(text: string): Promise<SentimentResult> {
     try {
-      // In production, use Hebrew sentiment analysis model
-      // For now, return neutral sentiment
-      return {
-        score: 0,
-        label: 'neutral',
-        confidence: 0.5
-      };
+      return analyzeSentiment(text);
     } catch (error) {
       logger.error('Sentiment analysis failed:', error);
       return {
         score: 0,
         label: 'neutral',
-        confidence: 0
+        confidence: 0,
+        sentences: []
       };
     }
   }
 
   /**
-   * Add nikud (vocalization) to Hebrew text
+   * Add nikud (vocalization) to Hebrew text with the first provider that
+   * succeeds: the remote service when ENABLE_NIKUD is on and a service is
+   * configured, then the offline dictionary
    */
   async addNikud(text: string): Promise<string> {
-    try {
-      // In production, integrate with Dicta or similar service
-      // For now, return the original text
-      return text;
-    } catch (error) {
-      logger.error('Nikud addition failed:', error);
-      return text;
+    for (const provider of this.nikudProviders) {
+      try {
+        return await provider.addNikud(text);
+      } catch (error: any) {
+        logger.warn(`Nikud provider ${provider.name} failed`, { error: error.message });
+      }
     }
+    return text;
+  }
+
+  /**
+   * Use another source of nikud before the configured ones
+   */
+  registerNikudProvider(provider: NikudProvider): void {
+    this.nikudProviders.unshift(provider);
+  }
+
+  /**
+   * Strip nikud and cantillation marks ("שָׁלוֹם" → "שלום")
+   */
+  removeNikud(text: string): string {
+    return removeNikud(text);
   }
 
   /**
@@ -0,0 +1,211 @@
+import { Binyan, IRREGULAR_FORMS, LEXICON, VERBS } from './lexicon';
+import { Token } from './tokenizer';
+
+export interface Lemma {
+  lemma: string;
+  // Found in the lexicon; unknown words get a stem with the plural suffix removed
+  known: boolean;
+}
+
+const FINAL_LETTERS: Record<string, string> = { 'כ': 'ך', 'מ': 'ם', 'נ': 'ן', 'פ': 'ף', 'צ': 'ץ' };
+const REGULAR_LETTERS: Record<string, string> = Object.fromEntries(
+  Object.entries(FINAL_LETTERS).map(([regular, final]) => [final, regular])
+);
+
+// Conjugation templates of each binyan; 1, 2 and 3 stand for the root letters.
+// The lemma is the third person masculine singular past.
+const CONJUGATIONS: Record<Binyan, { lemma: string; forms: string[] }> = {
+  PAAL: {
+    lemma: '123',
+    forms: [
+      '123תי', '123ת', '123ה', '123נו', '123תם', '123תן', '123ו',
+      '1ו23', '1ו23ת', '1ו23ים', '1ו23ות',
+      'א12ו3', 'ת12ו3', 'י12ו3', 'נ12ו3', 'ת123י', 'ת123ו', 'י123ו', 'ל12ו3',
+    ],
+  },
+  PIEL: {
+    lemma: '1י23',
+    forms: [
+      '1י23תי', '1י23ת', '1י23ה', '1י23נו', '1י23תם', '1י23ו',
+      'מ123', 'מ123ת', 'מ123ים', 'מ123ות',
+      'א123', 'ת123', 'י123', 'נ123', 'ת123י', 'ת123ו', 'י123ו', 'ל123',
+    ],
+  },
+  HIFIL: {
+    lemma: 'ה12י3',
+    forms: [
+      'ה123תי', 'ה123ת', 'ה12י3ה', 'ה123נו', 'ה123תם', 'ה12י3ו',
+      'מ12י3', 'מ12י3ה', 'מ12י3ים', 'מ12י3ות',
+      'א12י3', 'ת12י3', 'י12י3', 'נ12י3', 'ת12י3י', 'ת12י3ו', 'י12י3ו', 'לה12י3',
+    ],
+  },
+  NIFAL: {
+    lemma: 'נ123',
+    forms: [
+      'נ123תי', 'נ123ת', 'נ123ה', 'נ123נו', 'נ123תם', 'נ123ו',
+      'נ123ים', 'נ123ות',
+      'אי123', 'תי123', 'יי123', 'ני123', 'תי123י', 'תי123ו', 'יי123ו', 'להי123',
+    ],
+  },
+  HITPAEL: {
+    lemma: 'הת123',
+    forms: [
+      'הת123תי', 'הת123ת', 'הת123ה', 'הת123נו', 'הת123תם', 'הת123ו',
+      'מת123', 'מת123ת', 'מת123ים', 'מת123ות',
+      'את123', 'תת123', 'ית123', 'נת123', 'תת123י', 'תת123ו', 'ית123ו', 'להת123',
+    ],
+  },
+};
+
+// Suffixes in the order they are tried, longest first, with the endings that may replace them
+const SUFFIX_RULES: [string, string[]][] = [
+  // Plural nouns with possessive suffixes: הזמנותיי, מחיריהם
+  ...['ותיהם', 'ותיהן', 'ותיכם', 'ותינו', 'ותיי', 'ותיך', 'ותיו', 'ותיה']
+    .map((suffix): [string, string[]] => [suffix, ['ה', 'ת', '']]),
+  ...['יהם', 'יהן', 'יכם', 'ינו', 'יי', 'יך', 'יו', 'יה']
+    .map((suffix): [string, string[]] => [suffix, ['']]),
+  // Feminine nouns with possessive suffixes: הזמנתי, כתובתו
+  ...['תכם', 'תכן', 'תנו', 'תי', 'תך', 'תו', 'תה', 'תם', 'תן']
+    .map((suffix): [string, string[]] => [suffix, ['ה', 'ת']]),
+  // Plurals: מחירים, הזמנות, חשבוניות
+  ['ים', ['']],
+  ['ות', ['ה', 'ת', '']],
+  // Possessive suffixes and feminine adjectives: ביתי, ביתנו, גדולה
+  ...['כם', 'הם', 'נו', 'י', 'ך', 'ו', 'ה', 'ם', 'ן']
+    .map((suffix): [string, string[]] => [suffix, ['']]),
+];
+
+// Suffix stripping must leave at least this many letters
+const MIN_STEM_LETTERS = 2;
+
+// Inflected verb forms mapped to their lemma, built once from the verb list
+const VERB_FORMS = buildVerbForms();
+
+const LEMMAS: ReadonlySet<string> = new Set([
+  ...LEXICON,
+  ...Object.values(IRREGULAR_FORMS),
+  ...VERB_FORMS.values(),
+]);
+
+/**
+ * Lemma of a Hebrew word without prefixes or nikud ("הזמנות", "הזמנתי" → "הזמנה").
+ * Known lemmas are tried first: irregular forms, then suffix rules checked
+ * against the lexicon, then conjugated verbs. Other words are stemmed.
+ */
+export function lemmatizeWord(word: string): Lemma {
+  const irregular = IRREGULAR_FORMS[word];
+  if (irregular) {
+    return { lemma: irregular, known: true };
+  }
+  if (LEMMAS.has(word)) {
+    return { lemma: word, known: true };
+  }
+  if (/["']/.test(word)) {
+    return { lemma: word, known: false };
+  }
+
+  for (const [suffix, endings] of SUFFIX_RULES) {
+    if (!word.endsWith(suffix) || word.length - suffix.length < MIN_STEM_LETTERS) {
+      continue;
+    }
+
+    const stem = word.slice(0, -suffix.length);
+    for (const ending of endings) {
+      const candidate = withFinalLetter(stem + ending);
+      if (LEMMAS.has(candidate)) {
+        return { lemma: IRREGULAR_FORMS[candidate] || candidate, known: true };
+      }
+    }
+  }
+
+  const verb = VERB_FORMS.get(word);
+  if (verb) {
+    return { lemma: verb, known: true };
+  }
+
+  return { lemma: stemWord(word), known: false };
+}
+
+/**
+ * Lemma of a token; tokens other than Hebrew words keep their base form
+ */
+export function lemmatizeToken(token: Token): string {
+  return token.type === 'WORD' ? lemmatizeWord(token.base).lemma : token.base;
+}
+
+/**
+ * Whether a word is an inflected form of a known lemma. Used by the tokenizer
+ * so "והזמנות" splits into ו and "הזמנות".
+ */
+export function isKnownForm(word: string): boolean {
+  return lemmatizeWord(word).known;
+}
+
+/**
+ * Remove the plural suffix of an unknown word: ים, or ות for ה
+ */
+function stemWord(word: string): string {
+  if (word.length - 2 < 3) {
+    return word;
+  }
+  if (word.endsWith('ים')) {
+    return withFinalLetter(word.slice(0, -2));
+  }
+  if (word.endsWith('ות')) {
+    return `${word.slice(0, -2)}ה`;
+  }
+  return word;
+}
+
+function buildVerbForms(): Map<string, string> {
+  const forms = new Map<string, string>();
+
+  for (const { root, binyan } of VERBS) {
+    const letters = [...root].map(letter => REGULAR_LETTERS[letter] || letter);
+    const conjugation = CONJUGATIONS[binyan];
+    const conjugate = (template: string) => withFinalLetter(
+      reorderHitpael(binyan, letters[0], template)
+        .replace('1', letters[0])
+        .replace('2', letters[1])
+        .replace('3', letters[2])
+    );
+
+    const lemma = conjugate(conjugation.lemma);
+    for (const template of [conjugation.lemma, ...conjugation.forms]) {
+      const form = conjugate(template);
+      if (!forms.has(form)) {
+        forms.set(form, lemma);
+      }
+    }
+  }
+
+  return forms;
+}
+
+/**
+ * The ת of hitpael swaps places with a first root letter ש or ס (השתמש),
+ * and also changes after צ and ז (הצטרף, הזדמן)
+ */
+function reorderHitpael(binyan: Binyan, firstLetter: string, template: string): string {
+  if (binyan !== 'HITPAEL') {
+    return template;
+  }
+  if (firstLetter === 'ש' || firstLetter === 'ס') {
+    return template.replace('ת1', '1ת');
+  }
+  if (firstLetter === 'צ') {
+    return template.replace('ת1', '1ט');
+  }
+  if (firstLetter === 'ז') {
+    return template.replace('ת1', '1ד');
+  }
+  return template;
+}
+
+/**
+ * Write the last letter in its final form (כ → ך, מ → ם, נ → ן, פ → ף, צ → ץ)
+ */
+export function withFinalLetter(word: string): string {
+  const last = word[word.length - 1];
+  return FINAL_LETTERS[last] ? word.slice(0, -1) + FINAL_LETTERS[last] : word;
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+/**
+ * Offline Hebrew lexicon of lemmas: no prefixes, no nikud, gershayim as ".
+ * The tokenizer uses it to tell a prefix (ב in "בבית") from a word's first
+ * letter (ב in "בית"), so it favors words common in customer conversations.
+ */
+
+// Function words, pronouns and prepositions with their suffixes
+const FUNCTION_WORDS = [
+  'של', 'שלי', 'שלך', 'שלו', 'שלה', 'שלנו', 'שלכם', 'שלכן', 'שלהם', 'שלהן',
+  'את', 'אתה', 'אתם', 'אתן', 'אני', 'אנחנו', 'הוא', 'היא', 'הם', 'הן',
+  'אותי', 'אותך', 'אותו', 'אותה', 'אותנו', 'אתכם', 'אותם', 'אותן',
+  'לי', 'לך', 'לו', 'לה', 'לנו', 'לכם', 'להם', 'להן',
+  'בי', 'בך', 'בו', 'בה', 'בנו', 'בכם', 'בהם', 'בהן',
+  'ממני', 'ממך', 'ממנו', 'ממנה', 'מכם', 'מהם', 'מהן',
+  'עם', 'עמי', 'איתי', 'איתך', 'איתו', 'איתה', 'איתנו', 'איתכם', 'איתם',
+  'על', 'עליי', 'עלי', 'עליך', 'עליו', 'עליה', 'עלינו', 'עליכם', 'עליהם',
+  'אל', 'אליי', 'אליך', 'אליו', 'אליה', 'אלינו', 'אליכם', 'אליהם',
+  'זה', 'זאת', 'זו', 'אלה', 'אלו', 'הזה', 'הזאת', 'הזו', 'האלה', 'האלו', 'ההוא', 'ההיא',
+  'לא', 'כן', 'אין', 'יש', 'אם', 'כי', 'גם', 'רק', 'עוד', 'כבר', 'אבל', 'או', 'אך',
+  'מה', 'מי', 'מתי', 'איפה', 'איך', 'למה', 'מדוע', 'כמה', 'איזה', 'איזו', 'אילו', 'לאן', 'מאיפה',
+  'כל', 'כלום', 'שום', 'הכל', 'הכול', 'כמו', 'כך', 'ככה', 'כאן', 'פה', 'שם', 'עכשיו', 'אז',
+  'היום', 'מחר', 'אתמול', 'מחרתיים', 'שלשום', 'הערב', 'הבוקר', 'השבוע', 'החודש', 'השנה',
+  'לפני', 'אחרי', 'אחר', 'אחרת', 'בין', 'בלי', 'ללא', 'תחת', 'מול', 'ליד', 'אצל', 'בגלל', 'לגבי',
+  'בתוך', 'מתוך', 'כדי', 'בשביל', 'למרות', 'בערך', 'לכן', 'לפי', 'במקום', 'בדיוק', 'בסדר',
+  'מאוד', 'יותר', 'פחות', 'הכי', 'ביותר', 'ממש', 'די', 'לגמרי', 'בכלל', 'אולי', 'בטח', 'כמובן',
+  'שלום', 'תודה', 'בבקשה', 'סליחה', 'להתראות', 'בוקר', 'ערב', 'לילה', 'צהריים',
+];
+
+// Nouns and adjectives of customer service and commerce, in their lemma form
+// (singular, masculine); inflected forms are derived by the lemmatizer
+const COMMON_WORDS = [
+  'בית', 'ספר', 'דירה', 'משרד', 'חנות', 'סניף', 'מקום', 'עיר', 'רחוב', 'כתובת', 'מדינה', 'ארץ',
+  'משלוח', 'הזמנה', 'מוצר', 'פריט', 'חבילה', 'מחיר', 'תשלום', 'חשבון', 'חשבונית', 'קבלה', 'כסף',
+  'שקל', 'אגורה', 'הנחה', 'מבצע', 'קופון', 'זיכוי', 'החזר', 'החזרה', 'ביטול', 'החלפה', 'אחריות',
+  'תיקון', 'שליח', 'לקוח', 'שירות', 'נציג', 'מנהל', 'עובד', 'צוות', 'חברה', 'תמיכה', 'בעיה',
+  'שאלה', 'תשובה', 'תלונה', 'פנייה', 'בקשה', 'עזרה', 'מידע', 'טלפון', 'מספר', 'הודעה', 'מייל',
+  'אתר', 'אפליקציה', 'סיסמה', 'משתמש', 'כרטיס', 'אשראי', 'מנוי', 'זמן', 'שעה', 'דקה', 'יום',
+  'שבוע', 'חודש', 'שנה', 'תאריך', 'מועד', 'תור', 'פגישה', 'המתנה', 'עיכוב', 'איחור', 'מסירה',
+  'איסוף', 'הגעה', 'סטטוס', 'אדם', 'איש', 'אישה', 'ילד', 'ילדה', 'משפחה', 'חבר', 'שם', 'גיל',
+  'אוכל', 'מים', 'רכב', 'מכונית', 'אוטובוס', 'רכבת', 'טיסה', 'מלון', 'חדר', 'מסעדה', 'ביטוח', 'בנק',
+  'צריך', 'יכול', 'אפשר', 'אסור', 'מותר', 'טוב', 'רע', 'גדול', 'קטן', 'חדש', 'ישן', 'מהיר',
+  'ארוך', 'קצר', 'יקר', 'זול', 'שבור', 'פגום', 'חינם', 'פתוח', 'סגור', 'מוכן', 'דחוף', 'נכון',
+];
+
+// Everyday words starting with מ or ש, which would otherwise lose that letter as a prefix
+const MEM_SHIN_WORDS = [
+  'מלך', 'מלכה', 'מכתב', 'מחשב', 'מסך', 'מכשיר', 'מטבח', 'מקרר', 'מזגן', 'מיטה', 'מעיל', 'מכנסיים',
+  'מילה', 'מתנה', 'מזל', 'מחלה', 'מורה', 'מלאכה', 'משקל', 'מסמך', 'מדריך', 'משכורת', 'מבנה', 'משחק',
+  'מקרה', 'מצב', 'מטרה', 'מכירה', 'מלחמה', 'מוזיקה', 'מזג', 'מעלית', 'מפתח', 'מנעול',
+  'שמיים', 'שמש', 'שולחן', 'שעון', 'שוק', 'שמן', 'שיר', 'שטח', 'שכונה', 'שכירות', 'שיחה', 'שבת',
+  'שלב', 'שינוי', 'שימוש', 'שמלה', 'שקית', 'שלט', 'שער', 'שכן', 'שותף', 'שגיאה', 'שוטר', 'שחקן',
+];
+
+export type Binyan = 'PAAL' | 'PIEL' | 'HIFIL' | 'NIFAL' | 'HITPAEL';
+
+// Verbs with three regular root letters; the lemmatizer conjugates them
+export const VERBS: { root: string; binyan: Binyan }[] = [
+  ...['כתב', 'שלח', 'שמר', 'סגר', 'פתח', 'עבד', 'גמר', 'למד', 'שבר', 'קבע', 'מכר', 'בדק', 'אמר',
+    'שאל', 'זכר', 'שכח', 'חזר', 'עזר', 'מצא', 'חשב', 'הלך', 'רשם', 'מסר', 'אהב', 'פתר']
+    .map(root => ({ root, binyan: 'PAAL' as const })),
+  ...['בקש', 'בטל', 'שלם', 'קבל', 'דבר', 'סדר', 'תקן', 'חפש', 'טפל', 'ספר', 'שפר', 'ברר', 'אשר', 'חבר']
+    .map(root => ({ root, binyan: 'PIEL' as const })),
+  ...['זמן', 'חזר', 'סבר', 'רגש', 'תחל', 'פסק', 'בטח', 'כנס', 'סכם', 'צלח', 'מלץ', 'חלף', 'פעל',
+    'שאר', 'קדם', 'זכר', 'גדל', 'שלם']
+    .map(root => ({ root, binyan: 'HIFIL' as const })),
+  ...['שלח', 'כנס', 'סגר', 'פתח', 'שבר', 'גמר', 'רשם', 'מסר', 'שאר']
+    .map(root => ({ root, binyan: 'NIFAL' as const })),
+  ...['קשר', 'עכב', 'חבר', 'שמש', 'קדם', 'נתק', 'סדר']
+    .map(root => ({ root, binyan: 'HITPAEL' as const })),
+];
+
+// Irregular plurals and forms of weak verbs, mapped to their lemma
+export const IRREGULAR_FORMS: Record<string, string> = {
+  'ימים': 'יום', 'שנים': 'שנה', 'בתים': 'בית', 'אנשים': 'איש', 'נשים': 'אישה', 'ערים': 'עיר',
+  'חנויות': 'חנות', 'סיסמאות': 'סיסמה', 'פניות': 'פנייה', 'ארצות': 'ארץ', 'שמות': 'שם',
+  'רוצה': 'רצה', 'רוצים': 'רצה', 'רוצות': 'רצה', 'רציתי': 'רצה', 'רצית': 'רצה', 'רצינו': 'רצה',
+  'רצו': 'רצה', 'ארצה': 'רצה', 'תרצה': 'רצה', 'נרצה': 'רצה', 'לרצות': 'רצה',
+  'הגיע': 'הגיע', 'הגיעה': 'הגיע', 'הגיעו': 'הגיע', 'הגעתי': 'הגיע', 'הגענו': 'הגיע', 'מגיע': 'הגיע',
+  'מגיעה': 'הגיע', 'מגיעים': 'הגיע', 'מגיעות': 'הגיע', 'יגיע': 'הגיע', 'תגיע': 'הגיע', 'להגיע': 'הגיע',
+  'עשיתי': 'עשה', 'עשה': 'עשה', 'עשתה': 'עשה', 'עשו': 'עשה', 'עושה': 'עשה', 'עושים': 'עשה',
+  'יעשה': 'עשה', 'תעשה': 'עשה', 'לעשות': 'עשה',
+  'קניתי': 'קנה', 'קנה': 'קנה', 'קנתה': 'קנה', 'קנו': 'קנה', 'קונה': 'קנה', 'קונים': 'קנה', 'לקנות': 'קנה',
+  'ראיתי': 'ראה', 'ראה': 'ראה', 'רואה': 'ראה', 'רואים': 'ראה', 'לראות': 'ראה',
+  'חיכיתי': 'חיכה', 'חיכה': 'חיכה', 'חיכינו': 'חיכה', 'מחכה': 'חיכה', 'מחכים': 'חיכה', 'לחכות': 'חיכה',
+  'שיניתי': 'שינה', 'מחליף': 'החליף', 'לשנות': 'שינה',
+  'נתתי': 'נתן', 'נתן': 'נתן', 'נתנו': 'נתן', 'נותן': 'נתן', 'ייתן': 'נתן', 'תיתן': 'נתן', 'לתת': 'נתן',
+  'לקחתי': 'לקח', 'לקח': 'לקח', 'לקחו': 'לקח', 'לוקח': 'לקח', 'לוקחת': 'לקח', 'ייקח': 'לקח', 'לקחת': 'לקח',
+  'הבנתי': 'הבין', 'הבין': 'הבין', 'מבין': 'הבין', 'מבינה': 'הבין', 'להבין': 'הבין',
+  'הייתי': 'היה', 'היה': 'היה', 'היתה': 'היה', 'הייתה': 'היה', 'היו': 'היה', 'יהיה': 'היה',
+  'תהיה': 'היה', 'להיות': 'היה',
+  'באתי': 'בא', 'בא': 'בא', 'באה': 'בא', 'באו': 'בא', 'יבוא': 'בא', 'לבוא': 'בא',
+  'יצאתי': 'יצא', 'יצא': 'יצא', 'יצאה': 'יצא', 'יוצא': 'יצא', 'ייצא': 'יצא', 'לצאת': 'יצא',
+  'צריכה': 'צריך', 'צריכים': 'צריך', 'צריכות': 'צריך', 'יכולה': 'יכול', 'יכולים': 'יכול', 'יכולות': 'יכול',
+};
+
+// Places, including each word of multi-word names
+const PLACES = [
+  'ישראל', 'ירושלים', 'תל', 'אביב', 'יפו', 'חיפה', 'באר', 'שבע', 'אשדוד', 'אשקלון', 'נתניה',
+  'חולון', 'בת', 'ים', 'רמת', 'גן', 'פתח', 'תקווה', 'ראשון', 'לציון', 'רחובות', 'הרצליה',
+  'רעננה', 'כפר', 'סבא', 'מודיעין', 'אילת', 'טבריה', 'נצרת', 'עפולה', 'בני', 'ברק', 'לוד', 'רמלה',
+  'צפון', 'דרום', 'מרכז', 'מזרח', 'מערב', 'גליל', 'נגב', 'שרון', 'גוש', 'דן',
+];
+
+// Acronyms, which must not lose their first letter as a prefix
+const ACRONYMS = [
+  'צה"ל', 'ארה"ב', 'ד"ר', 'עו"ד', 'רו"ח', 'מע"מ', 'ש"ח', 'ת"א', 'ב"ש', 'ת"ז', 'בי"ס', 'בע"מ',
+  'מנכ"ל', 'סמנכ"ל', 'יו"ר', 'חו"ל', 'שב"כ', 'מד"א', 'קופ"ח', 'מס"ב', 'ע"י', 'וכו\'',
+];
+
+const FUNCTION_WORDS_SET: ReadonlySet<string> = new Set(FUNCTION_WORDS);
+
+export const LEXICON: ReadonlySet<string> = new Set([
+  ...FUNCTION_WORDS,
+  ...COMMON_WORDS,
+  ...MEM_SHIN_WORDS,
+  ...PLACES,
+  ...ACRONYMS,
+]);
+
+/**
+ * Check whether a base form (no prefixes or nikud) is a known word
+ */
+export function isKnownWord(word: string): boolean {
+  return LEXICON.has(word);
+}
+
+/**
+ * Function words carry no topic and are left out of keywords
+ */
+export function isFunctionWord(word: string): boolean {
+  return FUNCTION_WORDS_SET.has(word);
+}
\ No newline at end of file
@@ -0,0 +1,644 @@
+import axios from 'axios';
+import {
+  AMBIGUOUS_CITIES,
+  AMBIGUOUS_FIRST_NAMES,
+  AMBIGUOUS_ORGANIZATIONS,
+  CITIES,
+  FIRST_NAMES,
+  HOLIDAYS,
+  HONORIFICS,
+  LAST_NAMES,
+  ORGANIZATION_PREFIXES,
+  ORGANIZATIONS,
+  STREET_KEYWORDS,
+  STREETS,
+} from './gazetteers';
+import { isKnownForm } from './lemmatizer';
+import { isFunctionWord } from './lexicon';
+import { hasNikud } from './nikud';
+import { detectPII } from './pii';
+import { Token } from './tokenizer';
+
+export type EntityType =
+  'PERSON' | 'LOCATION' | 'ORGANIZATION' | 'DATE' | 'MONEY' | 'PHONE' | 'EMAIL' | 'NUMBER' | 'OTHER';
+
+export interface Entity {
+  text: string;
+  type: EntityType;
+  startIndex: number;
+  endIndex: number;
+  confidence: number; // 0 to 1
+  // Canonical value: ISO date, amount with currency code, phone digits or lowercase email
+  normalized?: string;
+  source?: 'GAZETTEER' | 'PATTERN' | 'REMOTE';
+}
+
+/**
+ * Additional source of entities, e.g. a remote NER model. Its results compete
+ * with the offline ones by confidence.
+ */
+export interface EntityRecognizer {
+  name: string;
+  recognize(text: string): Promise<Entity[]>;
+}
+
+const CONFIDENCE = {
+  EMAIL: 0.99,
+  PHONE: 0.95,
+  MONEY: 0.95,
+  DATE: 0.95,
+  MONTH_AND_YEAR: 0.9,
+  NUMERIC_DATE: 0.9,
+  NUMERIC_DATE_WITHOUT_YEAR: 0.7,
+  HEBREW_DATE: 0.9,
+  RELATIVE_DATE: 0.8,
+  DATE_PERIOD: 0.75,
+  HOLIDAY: 0.85,
+  ADDRESS: 0.85,
+  STREET: 0.9,
+  // Multi-word names are rarely anything else
+  MULTI_WORD_NAME: 0.95,
+  NAME: 0.9,
+  AMBIGUOUS_NAME: 0.5,
+  // Beats the city inside it: "עיריית חיפה"
+  ORGANIZATION_OF_CITY: 0.96,
+  ORGANIZATION_OF_WORD: 0.7,
+  FULL_NAME: 0.9,
+  FIRST_NAME_AND_UNKNOWN_WORD: 0.75,
+  TITLE_AND_UNKNOWN_WORD: 0.75,
+  FIRST_NAME: 0.65,
+  NUMBER: 0.6,
+  // Remote results without a confidence of their own
+  REMOTE: 0.8,
+};
+
+// Dates without a year are checked against a leap year, so 29/2 is accepted
+const LEAP_YEAR = 2024;
+
+const REMOTE_TIMEOUT_MS = parseInt(process.env.HEBREW_NLP_TIMEOUT_MS || '3000');
+
+// Prefixes allowed before a matched phrase ("בשבוע הבא", "ומחר"); the word must start after a non-letter
+const PREFIX_LOOKBEHIND = '(?<=(?:^|[^א-ת"\'])(?:ו?(?:ש|כש|מש)?(?:ה|[בכלמ])?))';
+const WORD_END = '(?![א-ת])';
+
+const GREGORIAN_MONTHS: Record<string, number> = {
+  'ינואר': 1, 'פברואר': 2, 'מרץ': 3, 'מרס': 3, 'אפריל': 4, 'מאי': 5, 'יוני': 6,
+  'יולי': 7, 'אוגוסט': 8, 'ספטמבר': 9, 'אוקטובר': 10, 'נובמבר': 11, 'דצמבר': 12,
+};
+const GREGORIAN_MONTH_PATTERN = Object.keys(GREGORIAN_MONTHS).join('|');
+
+const HEBREW_MONTH_PATTERN = [
+  'תשרי', 'מרחשוון', 'מרחשון', 'חשוון', 'חשון', 'כסלו', 'טבת', 'שבט', 'אדר [אב][\'׳]', 'אדר',
+  'ניסן', 'אייר', 'סיוון', 'סיון', 'תמוז', 'אב', 'אלול',
+].join('|');
+// Day of a Hebrew month in letters: א', ט"ו, כ"א, ל'
+const HEBREW_DAY_PATTERN = '(?:[יכ]["״][א-ט]|ט["״][וז]|[א-טיכל][\'׳])';
+const HEBREW_YEAR_PATTERN = '(?:ה[\'׳]?)?ת[א-ת]{0,2}["״][א-ת]';
+
+const CURRENCIES: [string, string][] = [
+  ['₪', 'ILS'], ['ש"ח', 'ILS'], ['ש״ח', 'ILS'], ['שקלים', 'ILS'], ['שקל', 'ILS'], ['NIS', 'ILS'], ['ILS', 'ILS'],
+  ['דולרים', 'USD'], ['דולר', 'USD'], ['$', 'USD'], ['USD', 'USD'],
+  ['יורו', 'EUR'], ['אירו', 'EUR'], ['€', 'EUR'], ['EUR', 'EUR'],
+];
+const CURRENCY_CODES = new Map(CURRENCIES);
+const CURRENCY_PATTERN = CURRENCIES.map(([symbol]) => symbol.replace(/[$]/g, '\\$')).join('|');
+const AMOUNT_PATTERN = '\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?';
+
+const EMAIL_REGEX = /(?<![\w.%+-])[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}(?![\w-])/g;
+const MONEY_REGEX = new RegExp(
+  `(?<![\\d.,])(${AMOUNT_PATTERN})\\s?(${CURRENCY_PATTERN})(?![א-תA-Za-z])` +
+  `|(?<![A-Za-z])(₪|\\$|€|NIS|ILS|USD|EUR)\\s?(${AMOUNT_PATTERN})(?![\\d.,]*\\d)`,
+  'g'
+);
+// "5 בינואר 2024", "ה-5 במאי"
+const GREGORIAN_DATE_REGEX = new RegExp(
+  `(?<!\\d)(\\d{1,2})\\s*[-־]?\\s*[בל]?(${GREGORIAN_MONTH_PATTERN})${WORD_END}(?:,?\\s*(\\d{4})(?!\\d))?`,
+  'g'
+);
+// "בינואר 2024"
+const MONTH_AND_YEAR_REGEX = new RegExp(`${PREFIX_LOOKBEHIND}(${GREGORIAN_MONTH_PATTERN})\\s+(\\d{4})(?!\\d)`, 'g');
+// "5/1/2024", "05.01.24"; day first, as written in Israel
+const NUMERIC_DATE_REGEX = /(?<![\d/.])(\d{1,2})([./-])(\d{1,2})\2(\d{4}|\d{2})(?![\d/.])/g;
+const NUMERIC_DATE_WITHOUT_YEAR_REGEX = /(?<![\d/.])(\d{1,2})\/(\d{1,2})(?![\d/.])/g;
+// "כ"א בתשרי תשפ"ה"
+const HEBREW_DATE_REGEX = new RegExp(
+  `${PREFIX_LOOKBEHIND}${HEBREW_DAY_PATTERN}\\s+[בל]?(?:${HEBREW_MONTH_PATTERN})${WORD_END}(?:\\s+${HEBREW_YEAR_PATTERN})?`,
+  'g'
+);
+const RELATIVE_PERIOD_REGEX = new RegExp(
+  `${PREFIX_LOOKBEHIND}(?:שבוע|חודש|שנה)\\s+ה?(?:הבא|הבאה|שעבר|שעברה|הקודם|הקודמת)${WORD_END}` +
+  `|${PREFIX_LOOKBEHIND}יום\\s+(?:ראשון|שני|שלישי|רביעי|חמישי|שישי|[אבגדהו][\'׳])${WORD_END}`,
+  'g'
+);
+const DATE_PERIOD_REGEX = new RegExp(
+  `${PREFIX_LOOKBEHIND}(?:בעוד|לפני|תוך|בתוך)\\s+(?:\\d+\\s+)?` +
+  `(?:יום|יומיים|ימים|שבוע|שבועיים|שבועות|חודש|חודשיים|חודשים|שנה|שנתיים|שנים)${WORD_END}`,
+  'g'
+);
+
+// Days relative to today
+const RELATIVE_DAYS: Record<string, number> = { 'שלשום': -2, 'אתמול': -1, 'היום': 0, 'מחר': 1, 'מחרתיים': 2 };
+
+type Gazetteer = { phrases: Set<string>; maxWords: number };
+
+const CITY_GAZETTEER = gazetteer(CITIES);
+const STREET_GAZETTEER = gazetteer(STREETS);
+const ORGANIZATION_GAZETTEER = gazetteer(ORGANIZATIONS);
+const FIRST_NAME_GAZETTEER = gazetteer(FIRST_NAMES);
+const LAST_NAME_GAZETTEER = gazetteer(LAST_NAMES);
+const HOLIDAY_GAZETTEER = gazetteer(HOLIDAYS);
+
+interface PhraseMatch {
+  phrase: string;
+  words: number;
+  startIndex: number;
+  endIndex: number;
+  // Index of the phrase's last token
+  lastToken: number;
+}
+
+/**
+ * Every entity candidate found offline in text: gazetteer names over the tokens,
+ * and patterns for emails, phones, amounts and dates over the text. Candidates
+ * may overlap; resolveOverlaps picks between them.
+ */
+export function recognizeEntities(text: string, tokens: Token[]): Entity[] {
+  return [
+    ...gazetteerEntities(text, tokens),
+    ...patternEntities(text),
+    ...numberEntities(text, tokens),
+  ];
+}
+
+/**
+ * Keep the most confident entity wherever candidates overlap, the longer one on a tie
+ */
+export function resolveOverlaps(entities: Entity[]): Entity[] {
+  const ranked = [...entities].sort((a, b) =>
+    b.confidence - a.confidence ||
+    (b.endIndex - b.startIndex) - (a.endIndex - a.startIndex) ||
+    a.startIndex - b.startIndex
+  );
+
+  const kept: Entity[] = [];
+  for (const entity of ranked) {
+    if (!kept.some(other => entity.startIndex < other.endIndex && entity.endIndex > other.startIndex)) {
+      kept.push(entity);
+    }
+  }
+
+  return kept.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * Entities from the Hebrew NLP service: POST {baseUrl}/ner with { text }, answered
+ * with { entities: [{ type, startIndex, endIndex, confidence? }] }
+ */
+export class RemoteEntityRecognizer implements EntityRecognizer {
+  name = 'remote';
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  async recognize(text: string): Promise<Entity[]> {
+    const response = await axios.post(`${this.baseUrl}/ner`, { text }, { timeout: REMOTE_TIMEOUT_MS });
+    const entities: any[] = Array.isArray(response.data?.entities) ? response.data.entities : [];
+
+    return entities
+      .filter(entity =>
+        isEntityType(entity?.type) &&
+        Number.isInteger(entity.startIndex) && Number.isInteger(entity.endIndex) &&
+        entity.startIndex >= 0 && entity.endIndex <= text.length && entity.startIndex < entity.endIndex
+      )
+      .map(entity => ({
+        text: text.slice(entity.startIndex, entity.endIndex),
+        type: entity.type,
+        startIndex: entity.startIndex,
+        endIndex: entity.endIndex,
+        confidence: typeof entity.confidence === 'number'
+          ? Math.min(1, Math.max(0, entity.confidence))
+          : CONFIDENCE.REMOTE,
+        ...(typeof entity.normalized === 'string' ? { normalized: entity.normalized } : {}),
+        source: 'REMOTE' as const,
+      }));
+  }
+}
+
+function isEntityType(type: unknown): type is EntityType {
+  return typeof type === 'string' &&
+    ['PERSON', 'LOCATION', 'ORGANIZATION', 'DATE', 'MONEY', 'PHONE', 'EMAIL', 'NUMBER', 'OTHER'].includes(type);
+}
+
+/**
+ * Places, organizations, people and holidays from the gazetteers, and relative days
+ */
+function gazetteerEntities(text: string, tokens: Token[]): Entity[] {
+  const entities: Entity[] = [];
+  const add = (type: EntityType, startIndex: number, endIndex: number, confidence: number, normalized?: string) =>
+    entities.push(entityOf(text, type, startIndex, endIndex, confidence, 'GAZETTEER', normalized));
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'WORD' && token.type !== 'ACRONYM') {
+      continue;
+    }
+    // Title and name: "ד"ר משה כהן"; the title is not part of the entity
+    if (formIn(token, HONORIFICS) !== null) {
+      const person = personAfterTitle(text, tokens, i + 1);
+      if (person) {
+        add('PERSON', person.startIndex, person.endIndex, person.confidence);
+      }
+    }
+
+    // "ברחוב הרצל 10"
+    const streetStart = formIn(token, STREET_KEYWORDS);
+    if (streetStart !== null) {
+      const street = adjacentMatch(text, tokens, i, STREET_GAZETTEER);
+      if (street) {
+        const houseNumber = tokens[street.lastToken + 1];
+        const end = houseNumber?.type === 'NUMBER' && houseNumber.prefixes.length === 0 &&
+          /^\s+$/.test(text.slice(street.endIndex, houseNumber.startIndex))
+          ? houseNumber.endIndex
+          : street.endIndex;
+        add('LOCATION', streetStart, end, CONFIDENCE.STREET);
+      }
+    }
+
+    // "עיריית חיפה", "מכללת ספיר"
+    const organizationStart = formIn(token, ORGANIZATION_PREFIXES);
+    if (organizationStart !== null) {
+      const city = adjacentMatch(text, tokens, i, CITY_GAZETTEER);
+      const next = tokens[i + 1];
+      if (city) {
+        add('ORGANIZATION', organizationStart, city.endIndex, CONFIDENCE.ORGANIZATION_OF_CITY);
+      } else if (next?.type === 'WORD' && isAdjacent(text, token, next) && !isFunctionWord(next.base)) {
+        add('ORGANIZATION', organizationStart, next.endIndex, CONFIDENCE.ORGANIZATION_OF_WORD);
+      }
+    }
+
+    const city = matchPhrase(text, tokens, i, CITY_GAZETTEER, true);
+    if (city) {
+      add('LOCATION', city.startIndex, city.endIndex, nameConfidence(city, AMBIGUOUS_CITIES));
+    }
+
+    const organization = matchPhrase(text, tokens, i, ORGANIZATION_GAZETTEER, true);
+    if (organization) {
+      add('ORGANIZATION', organization.startIndex, organization.endIndex,
+        nameConfidence(organization, AMBIGUOUS_ORGANIZATIONS));
+    }
+
+    const holiday = matchPhrase(text, tokens, i, HOLIDAY_GAZETTEER, true);
+    if (holiday) {
+      add('DATE', holiday.startIndex, holiday.endIndex, CONFIDENCE.HOLIDAY);
+    }
+
+    const person = personAt(text, tokens, i);
+    if (person) {
+      add('PERSON', person.startIndex, person.endIndex, person.confidence);
+    }
+
+    for (const { form, startIndex } of wordForms(token)) {
+      if (form in RELATIVE_DAYS) {
+        add('DATE', startIndex, token.endIndex, CONFIDENCE.RELATIVE_DATE, isoDate(daysFromToday(RELATIVE_DAYS[form])));
+        break;
+      }
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * A first name, with a last name or an unknown word after it when there is one
+ */
+function personAt(
+  text: string,
+  tokens: Token[],
+  index: number
+): { startIndex: number; endIndex: number; confidence: number } | null {
+  const first = matchPhrase(text, tokens, index, FIRST_NAME_GAZETTEER, true);
+  if (!first) {
+    return null;
+  }
+
+  const last = adjacentMatch(text, tokens, first.lastToken, LAST_NAME_GAZETTEER);
+  if (last) {
+    return { startIndex: first.startIndex, endIndex: last.endIndex, confidence: CONFIDENCE.FULL_NAME };
+  }
+
+  // An unknown word after a first name is most likely a last name: "דני רוזנטל"
+  const next = tokens[first.lastToken + 1];
+  if (next && isUnknownWord(next) && isAdjacent(text, tokens[first.lastToken], next)) {
+    return { startIndex: first.startIndex, endIndex: next.endIndex, confidence: CONFIDENCE.FIRST_NAME_AND_UNKNOWN_WORD };
+  }
+
+  if (AMBIGUOUS_FIRST_NAMES.has(first.phrase)) {
+    return null;
+  }
+  return { startIndex: first.startIndex, endIndex: first.endIndex, confidence: CONFIDENCE.FIRST_NAME };
+}
+
+/**
+ * The name after a title: known names, or one or two words that are not function words
+ */
+function personAfterTitle(
+  text: string,
+  tokens: Token[],
+  index: number
+): { startIndex: number; endIndex: number; confidence: number } | null {
+  const title = tokens[index - 1];
+  const next = tokens[index];
+  if (!next || next.type !== 'WORD' || !isAdjacent(text, title, next)) {
+    return null;
+  }
+
+  const first = matchPhrase(text, tokens, index, FIRST_NAME_GAZETTEER, false);
+  if (first) {
+    const last = adjacentMatch(text, tokens, first.lastToken, LAST_NAME_GAZETTEER);
+    const following = tokens[first.lastToken + 1];
+    const end = last?.endIndex ??
+      (following && isUnknownWord(following) && isAdjacent(text, tokens[first.lastToken], following)
+        ? following.endIndex
+        : first.endIndex);
+    return { startIndex: first.startIndex, endIndex: end, confidence: CONFIDENCE.FULL_NAME };
+  }
+
+  const last = matchPhrase(text, tokens, index, LAST_NAME_GAZETTEER, false);
+  if (last) {
+    return { startIndex: last.startIndex, endIndex: last.endIndex, confidence: CONFIDENCE.FULL_NAME };
+  }
+
+  if (isFunctionWord(plainForm(next)) || isKnownForm(plainForm(next))) {
+    return null;
+  }
+  const following = tokens[index + 1];
+  const end = following && isUnknownWord(following) && isAdjacent(text, next, following)
+    ? following.endIndex
+    : next.endIndex;
+  return { startIndex: next.startIndex, endIndex: end, confidence: CONFIDENCE.TITLE_AND_UNKNOWN_WORD };
+}
+
+/**
+ * Emails, phone numbers, addresses, amounts of money and dates
+ */
+function patternEntities(text: string): Entity[] {
+  const entities: Entity[] = [];
+  const add = (type: EntityType, startIndex: number, endIndex: number, confidence: number, normalized?: string) =>
+    entities.push(entityOf(text, type, startIndex, endIndex, confidence, 'PATTERN', normalized));
+
+  for (const match of text.matchAll(EMAIL_REGEX)) {
+    add('EMAIL', match.index!, match.index! + match[0].length, CONFIDENCE.EMAIL, match[0].toLowerCase());
+  }
+
+  for (const pii of detectPII(text)) {
+    if (pii.type === 'PHONE') {
+      add('PHONE', pii.startIndex, pii.endIndex, CONFIDENCE.PHONE, pii.value.replace(/[-\s]/g, ''));
+    } else if (pii.type === 'ADDRESS') {
+      // The address pattern includes a ב or ל prefix of the street keyword
+      const prefix = /^[בל](?=רחוב|רח|שד|דרך|סמ|כיכר)/.test(pii.value) ? 1 : 0;
+      add('LOCATION', pii.startIndex + prefix, pii.endIndex, CONFIDENCE.ADDRESS);
+    }
+  }
+
+  for (const match of text.matchAll(MONEY_REGEX)) {
+    const [, amountAfter, currencyAfter, currencyBefore, amountBefore] = match;
+    const amount = (amountAfter ?? amountBefore).replace(/,/g, '');
+    const currency = CURRENCY_CODES.get(currencyAfter ?? currencyBefore);
+    add('MONEY', match.index!, match.index! + match[0].length, CONFIDENCE.MONEY, `${amount} ${currency}`);
+  }
+
+  for (const match of text.matchAll(GREGORIAN_DATE_REGEX)) {
+    const [, day, month, year] = match;
+    const monthNumber = GREGORIAN_MONTHS[month];
+    const end = match.index! + match[0].length;
+    if (!isValidDate(Number(day), monthNumber, year ? Number(year) : LEAP_YEAR)) {
+      continue;
+    }
+    add('DATE', match.index!, end, CONFIDENCE.DATE, year
+      ? `${year}-${pad(monthNumber)}-${pad(Number(day))}`
+      : `--${pad(monthNumber)}-${pad(Number(day))}`);
+  }
+
+  for (const match of text.matchAll(MONTH_AND_YEAR_REGEX)) {
+    const [, month, year] = match;
+    add('DATE', match.index!, match.index! + match[0].length, CONFIDENCE.MONTH_AND_YEAR,
+      `${year}-${pad(GREGORIAN_MONTHS[month])}`);
+  }
+
+  for (const match of text.matchAll(NUMERIC_DATE_REGEX)) {
+    const [, day, , month, shortYear] = match;
+    const year = shortYear.length === 2 ? 2000 + Number(shortYear) : Number(shortYear);
+    if (isValidDate(Number(day), Number(month), year)) {
+      add('DATE', match.index!, match.index! + match[0].length, CONFIDENCE.NUMERIC_DATE,
+        `${year}-${pad(Number(month))}-${pad(Number(day))}`);
+    }
+  }
+
+  for (const match of text.matchAll(NUMERIC_DATE_WITHOUT_YEAR_REGEX)) {
+    const [, day, month] = match;
+    if (isValidDate(Number(day), Number(month), LEAP_YEAR)) {
+      add('DATE', match.index!, match.index! + match[0].length, CONFIDENCE.NUMERIC_DATE_WITHOUT_YEAR,
+        `--${pad(Number(month))}-${pad(Number(day))}`);
+    }
+  }
+
+  for (const match of text.matchAll(HEBREW_DATE_REGEX)) {
+    add('DATE', match.index!, match.index! + match[0].length, CONFIDENCE.HEBREW_DATE);
+  }
+
+  for (const match of text.matchAll(RELATIVE_PERIOD_REGEX)) {
+    add('DATE', match.index!, match.index! + match[0].length, CONFIDENCE.RELATIVE_DATE);
+  }
+
+  for (const match of text.matchAll(DATE_PERIOD_REGEX)) {
+    add('DATE', match.index!, match.index! + match[0].length, CONFIDENCE.DATE_PERIOD);
+  }
+
+  return entities;
+}
+
+/**
+ * Numbers not recognized as anything more specific
+ */
+function numberEntities(text: string, tokens: Token[]): Entity[] {
+  return tokens
+    .filter(token => token.type === 'NUMBER')
+    .map(token => entityOf(text, 'NUMBER', baseStart(token), token.endIndex, CONFIDENCE.NUMBER, 'PATTERN',
+      /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/.test(token.base) ? token.base.replace(/,/g, '') : undefined));
+}
+
+function entityOf(
+  text: string,
+  type: EntityType,
+  startIndex: number,
+  endIndex: number,
+  confidence: number,
+  source: Entity['source'],
+  normalized?: string
+): Entity {
+  return {
+    text: text.slice(startIndex, endIndex),
+    type,
+    startIndex,
+    endIndex,
+    confidence,
+    ...(normalized !== undefined ? { normalized } : {}),
+    source,
+  };
+}
+
+function gazetteer(entries: string[]): Gazetteer {
+  return {
+    phrases: new Set(entries),
+    maxWords: Math.max(...entries.map(entry => entry.split(' ').length)),
+  };
+}
+
+function nameConfidence(match: PhraseMatch, ambiguous: ReadonlySet<string>): number {
+  if (ambiguous.has(match.phrase)) {
+    return CONFIDENCE.AMBIGUOUS_NAME;
+  }
+  return match.words > 1 ? CONFIDENCE.MULTI_WORD_NAME : CONFIDENCE.NAME;
+}
+
+/**
+ * Longest gazetteer phrase starting at a token. The first word may carry
+ * prefixes ("מתל אביב") when allowed; the other words are matched as written
+ * and may only be separated by spaces or a hyphen.
+ */
+function matchPhrase(
+  text: string,
+  tokens: Token[],
+  index: number,
+  gazetteer: Gazetteer,
+  allowPrefixes: boolean
+): PhraseMatch | null {
+  const token = tokens[index];
+  if (!token || (token.type !== 'WORD' && token.type !== 'ACRONYM') || token.compound) {
+    return null;
+  }
+
+  const forms = allowPrefixes ? wordForms(token) : [{ form: plainForm(token), startIndex: token.startIndex }];
+  for (let words = Math.min(gazetteer.maxWords, tokens.length - index); words >= 1; words--) {
+    const rest: string[] = [];
+    for (let j = index + 1; j < index + words; j++) {
+      const next = tokens[j];
+      const gap = text.slice(tokens[j - 1].endIndex, next.startIndex);
+      if ((next.type !== 'WORD' && next.type !== 'ACRONYM') || !/^(?:\s+|\s*[-־]\s*)$/.test(gap)) {
+        break;
+      }
+      rest.push(plainForm(next));
+    }
+    if (rest.length !== words - 1) {
+      continue;
+    }
+
+    for (const { form, startIndex } of forms) {
+      const phrase = [form, ...rest].join(' ');
+      if (gazetteer.phrases.has(phrase)) {
+        const last = tokens[index + words - 1];
+        return { phrase, words, startIndex, endIndex: last.endIndex, lastToken: index + words - 1 };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Phrase written without prefixes right after the given token
+ */
+function adjacentMatch(text: string, tokens: Token[], index: number, gazetteer: Gazetteer): PhraseMatch | null {
+  const next = tokens[index + 1];
+  if (!next || !isAdjacent(text, tokens[index], next)) {
+    return null;
+  }
+  return matchPhrase(text, tokens, index + 1, gazetteer, false);
+}
+
+/**
+ * Readings of a word to look up, with where each starts in the text: the base
+ * form, the other bases an ambiguous word may have, and the word with its prefixes
+ */
+function wordForms(token: Token): { form: string; startIndex: number }[] {
+  const plain = plainForm(token);
+  const forms = [{ form: token.base, startIndex: baseStart(token) }];
+
+  for (const alternative of token.alternatives || []) {
+    forms.push({ form: alternative, startIndex: letterOffset(token, plain.length - alternative.length) });
+  }
+  if (plain !== token.base) {
+    forms.push({ form: plain, startIndex: token.startIndex });
+  }
+
+  return forms;
+}
+
+/**
+ * Start of the reading of a word found in a set of keywords ("ברחוב" for רחוב), or null
+ */
+function formIn(token: Token, keywords: ReadonlySet<string>): number | null {
+  const match = wordForms(token).find(({ form }) => keywords.has(form));
+  return match ? match.startIndex : null;
+}
+
+/**
+ * The word as written, without nikud
+ */
+function plainForm(token: Token): string {
+  return token.prefixes.join('') + token.base;
+}
+
+function baseStart(token: Token): number {
+  return token.segments.find(segment => segment.kind === 'BASE')!.startIndex;
+}
+
+/**
+ * Offset in the text after the first letters of a token, skipping nikud
+ */
+function letterOffset(token: Token, letters: number): number {
+  let seen = 0;
+  for (let i = 0; i < token.text.length; i++) {
+    if (seen === letters && !hasNikud(token.text[i])) {
+      return token.startIndex + i;
+    }
+    if (!hasNikud(token.text[i])) {
+      seen++;
+    }
+  }
+  return token.endIndex;
+}
+
+function isAdjacent(text: string, token: Token, next: Token): boolean {
+  return /^\s+$/.test(text.slice(token.endIndex, next.startIndex));
+}
+
+/**
+ * Hebrew word that is not in the lexicon under any reading, so likely a name
+ */
+function isUnknownWord(token: Token): boolean {
+  return token.type === 'WORD' && token.prefixes.length === 0 && !token.compound &&
+    !wordForms(token).some(({ form }) => isKnownForm(form) || isFunctionWord(form) ||
+      STREET_KEYWORDS.has(form) || ORGANIZATION_PREFIXES.has(form));
+}
+
+function isValidDate(day: number, month: number, year: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return month >= 1 && month <= 12 && date.getUTCDate() === day && date.getUTCMonth() === month - 1;
+}
+
+function daysFromToday(days: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+function isoDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
\ No newline at end of file
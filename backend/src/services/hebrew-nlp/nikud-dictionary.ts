@@ -0,0 +1,41 @@
+/**
+ * Vocalized forms of common words, keyed by the word without nikud. Used to add
+ * nikud offline when the remote service is off or unavailable; other words are
+ * left as written. Words keep their full spelling, so only points are added.
+ */
+export const NIKUD_DICTIONARY: Record<string, string> = {
+  // Greetings and courtesy
+  'שלום': 'שָׁלוֹם', 'תודה': 'תּוֹדָה', 'בבקשה': 'בְּבַקָּשָׁה', 'סליחה': 'סְלִיחָה', 'להתראות': 'לְהִתְרָאוֹת',
+  'ברוך': 'בָּרוּךְ', 'ברוכים': 'בְּרוּכִים', 'הבאים': 'הַבָּאִים', 'בוקר': 'בּוֹקֶר', 'ערב': 'עֶרֶב',
+  'לילה': 'לַיְלָה', 'טוב': 'טוֹב', 'טובה': 'טוֹבָה', 'כן': 'כֵּן', 'לא': 'לֹא',
+
+  // Pronouns and function words
+  'אני': 'אֲנִי', 'אתה': 'אַתָּה', 'את': 'אֶת', 'הוא': 'הוּא', 'היא': 'הִיא', 'אנחנו': 'אֲנַחְנוּ',
+  'אתם': 'אַתֶּם', 'הם': 'הֵם', 'הן': 'הֵן', 'זה': 'זֶה', 'זאת': 'זֹאת', 'אלה': 'אֵלֶּה',
+  'מה': 'מָה', 'מי': 'מִי', 'איך': 'אֵיךְ', 'למה': 'לָמָּה', 'מתי': 'מָתַי', 'איפה': 'אֵיפֹה',
+  'כמה': 'כַּמָּה', 'יש': 'יֵשׁ', 'אין': 'אֵין', 'עם': 'עִם', 'על': 'עַל', 'אל': 'אֶל', 'של': 'שֶׁל',
+  'גם': 'גַּם', 'רק': 'רַק', 'כל': 'כָּל', 'עוד': 'עוֹד', 'מאוד': 'מְאוֹד', 'עכשיו': 'עַכְשָׁיו',
+  'כאן': 'כָּאן', 'שם': 'שָׁם', 'אבל': 'אֲבָל', 'או': 'אוֹ', 'אם': 'אִם', 'כי': 'כִּי',
+
+  // Time
+  'יום': 'יוֹם', 'היום': 'הַיּוֹם', 'ימים': 'יָמִים', 'מחר': 'מָחָר', 'אתמול': 'אֶתְמוֹל',
+  'שבוע': 'שָׁבוּעַ', 'חודש': 'חוֹדֶשׁ', 'שנה': 'שָׁנָה', 'שעה': 'שָׁעָה', 'זמן': 'זְמַן',
+  'שבת': 'שַׁבָּת', 'חג': 'חַג', 'שמח': 'שָׂמֵחַ',
+
+  // People and places
+  'איש': 'אִישׁ', 'ילד': 'יֶלֶד', 'ילדה': 'יַלְדָּה', 'ילדים': 'יְלָדִים',
+  'אבא': 'אַבָּא', 'אמא': 'אִמָּא', 'משפחה': 'מִשְׁפָּחָה', 'מורה': 'מוֹרֶה', 'תלמיד': 'תַּלְמִיד',
+  'תלמידה': 'תַּלְמִידָה', 'בית': 'בַּיִת', 'הבית': 'הַבַּיִת', 'לבן': 'לָבָן', 'הלבן': 'הַלָּבָן',
+  'עיר': 'עִיר', 'ארץ': 'אֶרֶץ', 'ישראל': 'יִשְׂרָאֵל', 'ירושלים': 'יְרוּשָׁלַיִם', 'עולם': 'עוֹלָם',
+
+  // Learning and prayer
+  'ספר': 'סֵפֶר', 'ספרים': 'סְפָרִים', 'שאלה': 'שְׁאֵלָה',
+  'תשובה': 'תְּשׁוּבָה', 'תורה': 'תּוֹרָה', 'אמן': 'אָמֵן',
+  'מלך': 'מֶלֶךְ', 'לב': 'לֵב', 'אהבה': 'אַהֲבָה', 'מים': 'מַיִם', 'לחם': 'לֶחֶם', 'כלב': 'כֶּלֶב',
+  'חתול': 'חָתוּל', 'גדול': 'גָּדוֹל', 'קטן': 'קָטָן', 'חדש': 'חָדָשׁ', 'יפה': 'יָפֶה',
+
+  // Customer service
+  'הזמנה': 'הַזְמָנָה', 'משלוח': 'מִשְׁלוֹחַ', 'כתובת': 'כְּתוֹבֶת', 'טלפון': 'טֶלֶפוֹן',
+  'חשבון': 'חֶשְׁבּוֹן', 'כסף': 'כֶּסֶף', 'מחיר': 'מְחִיר', 'שירות': 'שֵׁירוּת', 'עזרה': 'עֶזְרָה',
+  'בעיה': 'בְּעָיָה',
+};
\ No newline at end of file
@@ -0,0 +1,67 @@
+import axios from 'axios';
+import { NIKUD_DICTIONARY } from './nikud-dictionary';
+
+// Vowel points and cantillation marks, without maqaf (U+05BE), paseq (U+05C0) and sof pasuq (U+05C3)
+export const NIKUD = '\\u0591-\\u05BD\\u05BF\\u05C1\\u05C2\\u05C4\\u05C5\\u05C7';
+
+const NIKUD_REGEX = new RegExp(`[${NIKUD}]`);
+const NIKUD_GLOBAL_REGEX = new RegExp(`[${NIKUD}]`, 'g');
+// Hebrew words as written, with any nikud
+const WORD_REGEX = new RegExp(`[\\u05D0-\\u05EA][\\u05D0-\\u05EA${NIKUD}]*`, 'g');
+
+const REMOTE_TIMEOUT_MS = parseInt(process.env.HEBREW_NLP_TIMEOUT_MS || '3000');
+
+/**
+ * Source of vocalized text. Providers only add points; the letters must stay the same.
+ */
+export interface NikudProvider {
+  name: string;
+  addNikud(text: string): Promise<string>;
+}
+
+/**
+ * Strip vowel points and cantillation marks ("שָׁלוֹם" → "שלום"), so vocalized and
+ * plain text compare equal. Maqaf and punctuation are kept.
+ */
+export function removeNikud(text: string): string {
+  return text.replace(NIKUD_GLOBAL_REGEX, '');
+}
+
+export function hasNikud(text: string): boolean {
+  return NIKUD_REGEX.test(text);
+}
+
+/**
+ * Offline vocalization of common words from a dictionary. Words that already
+ * have nikud or are not in the dictionary are left as written.
+ */
+export class DictionaryNikudProvider implements NikudProvider {
+  name = 'dictionary';
+
+  async addNikud(text: string): Promise<string> {
+    return text.replace(WORD_REGEX, word => (!hasNikud(word) && NIKUD_DICTIONARY[word]) || word);
+  }
+}
+
+/**
+ * Vocalization by the Hebrew NLP service: POST {baseUrl}/nikud with { text },
+ * answered with { text }
+ */
+export class RemoteNikudProvider implements NikudProvider {
+  name = 'remote';
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  async addNikud(text: string): Promise<string> {
+    const response = await axios.post(`${this.baseUrl}/nikud`, { text }, { timeout: REMOTE_TIMEOUT_MS });
+    const vocalized = response.data?.text;
+
+    if (typeof vocalized !== 'string' || removeNikud(vocalized) !== removeNikud(text)) {
+      throw new Error('Invalid response from nikud service');
+    }
+    return vocalized;
+  }
+}
\ No newline at end of file
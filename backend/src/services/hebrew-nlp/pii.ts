@@ -0,0 +1,222 @@
+export type PIIType = 'ISRAELI_ID' | 'CREDIT_CARD' | 'PHONE' | 'ADDRESS';
+
+export interface PIIMatch {
+  type: PIIType;
+  value: string;
+  startIndex: number;
+  endIndex: number;
+  // Placeholder that replaces the value in redacted text, e.g. [PHONE_1]
+  placeholder?: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  matches: PIIMatch[];
+}
+
+// Highest placeholder number used for each type, e.g. { PHONE: 2 } after [PHONE_2]
+export type PlaceholderCounts = Partial<Record<PIIType, number>>;
+
+// Israeli phone numbers, same format as PHONE_REGEX in the frontend constants
+const PHONE_REGEX = /^(\+972|0)([23489]|5[0248]|77)[1-9]\d{6}$/;
+
+// Candidates are validated after separators are removed
+const PHONE_CANDIDATE_REGEX = /(?:\+972[-\s]?|(?<!\d)0)(?:[23489]|5[0248]|77)[-\s]?\d{3}[-\s]?\d{4}(?!\d)/g;
+const CARD_CANDIDATE_REGEX = /(?<!\d)\d(?:[-\s]?\d){12,18}(?!\d)/g;
+const ID_CANDIDATE_REGEX = /(?<!\d)\d{8}-?\d(?!\d)/g;
+
+// A number right after these words is an order or reference number, even when its
+// check digit happens to be valid: "מספר הזמנה 123456782"
+const REFERENCE_CONTEXT_REGEX =
+  /(?:הזמנה|אסמכת[אה]|אישור|מעקב|משלוח|חשבונית|קבלה|עסקה|פני[יה]ה|תיק|לקוח|מנוי|order|ref(?:erence)?|tracking|invoice|ticket)[^\d\n]{0,15}$/i;
+// ...unless ID words are closer to it: "ההזמנה על שם ת"ז 123456782"
+const ID_CONTEXT_REGEX = /(?:ת["״'׳.]?ז|תעודת זהות|מספר זהות|\bID)[^\d\n]{0,15}$/i;
+// Characters before a number searched for these words
+const CONTEXT_LENGTH = 40;
+
+// Street addresses: a street keyword (with an optional ב/ל prefix), the street name and a house number
+const ADDRESS_REGEX = new RegExp(
+  '(?<![א-ת])[בל]?(?:רחוב|רח[\'׳]|שדרות|שד[\'׳]|דרך|סמטת|סמ[\'׳]|כיכר)\\s+' +
+  '[א-ת"\'׳״\\-]+(?:\\s+[א-ת"\'׳״\\-]+){0,3}\\s+\\d{1,4}[א-ת]?(?:\\s*(?:דירה|ד[\'׳])\\s*\\d{1,4})?' +
+  '|\\b\\d{1,5}\\s+(?:[A-Z][a-z]+\\s+){1,3}(?:Street|St|Road|Rd|Avenue|Ave|Boulevard|Blvd)\\b',
+  'g'
+);
+
+const PLACEHOLDER_NAMES: Record<PIIType, string> = {
+  ISRAELI_ID: 'ID',
+  CREDIT_CARD: 'CARD',
+  PHONE: 'PHONE',
+  ADDRESS: 'ADDRESS',
+};
+const PLACEHOLDER_TYPES = new Map(Object.entries(PLACEHOLDER_NAMES).map(([type, name]) => [name, type as PIIType]));
+const PLACEHOLDER_REGEX = new RegExp(`\\[(${Object.values(PLACEHOLDER_NAMES).join('|')})_(\\d+)\\]`, 'g');
+
+/**
+ * Validate a Teudat Zehut number by its check digit
+ */
+export function isValidIsraeliId(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length === 0 || digits.length > 9 || /^0+$/.test(digits)) {
+    return false;
+  }
+
+  const sum = digits
+    .padStart(9, '0')
+    .split('')
+    .reduce((total, digit, index) => {
+      const product = Number(digit) * (index % 2 === 0 ? 1 : 2);
+      return total + (product > 9 ? product - 9 : product);
+    }, 0);
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Validate a payment card number with the Luhn checksum
+ */
+export function isValidCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Check whether a number is an Israeli phone number
+ */
+export function isIsraeliPhone(value: string): boolean {
+  return PHONE_REGEX.test(value.replace(/[-\s]/g, ''));
+}
+
+/**
+ * Find ID numbers, payment cards, phone numbers and street addresses in text.
+ * Numbers are only reported when their check digit, checksum or format is valid.
+ */
+export function detectPII(text: string): PIIMatch[] {
+  const matches: PIIMatch[] = [];
+
+  const collect = (
+    regex: RegExp,
+    type: PIIType,
+    isValid: (value: string, startIndex: number) => boolean = () => true
+  ) => {
+    for (const match of text.matchAll(regex)) {
+      const startIndex = match.index!;
+      const endIndex = startIndex + match[0].length;
+      const overlaps = matches.some(existing => startIndex < existing.endIndex && endIndex > existing.startIndex);
+      if (!overlaps && isValid(match[0], startIndex)) {
+        matches.push({ type, value: match[0], startIndex, endIndex });
+      }
+    }
+  };
+
+  // Most specific first: card numbers are long, and a 9-digit ID may look like a landline
+  // About one in ten numbers passes a checksum, so order and reference numbers are left alone
+  const isReference = (startIndex: number) => isReferenceNumber(text, startIndex);
+  collect(CARD_CANDIDATE_REGEX, 'CREDIT_CARD', (value, startIndex) =>
+    isValidCardNumber(value) && !isReference(startIndex));
+  collect(ID_CANDIDATE_REGEX, 'ISRAELI_ID', (value, startIndex) =>
+    isValidIsraeliId(value) && !isReference(startIndex));
+  collect(PHONE_CANDIDATE_REGEX, 'PHONE', isIsraeliPhone);
+  collect(ADDRESS_REGEX, 'ADDRESS');
+
+  return matches.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * Whether the number at startIndex follows order or reference words rather than ID words
+ */
+function isReferenceNumber(text: string, startIndex: number): boolean {
+  const before = text.slice(Math.max(0, startIndex - CONTEXT_LENGTH), startIndex);
+  return !ID_CONTEXT_REGEX.test(before) && REFERENCE_CONTEXT_REGEX.test(before);
+}
+
+/**
+ * Highest placeholder number of each type in already redacted texts, such as
+ * the earlier messages of a conversation
+ */
+export function countPlaceholders(texts: string[]): PlaceholderCounts {
+  const counts: PlaceholderCounts = {};
+
+  for (const text of texts) {
+    for (const [, name, number] of text.matchAll(PLACEHOLDER_REGEX)) {
+      const type = PLACEHOLDER_TYPES.get(name)!;
+      counts[type] = Math.max(counts[type] || 0, Number(number));
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Replace detected PII with numbered placeholders such as [ID_1] and [PHONE_2].
+ * The same value always gets the same placeholder. Numbering continues after
+ * the earlier counts, and values among the known matches keep their
+ * placeholders, so placeholders stay unique within a conversation.
+ */
+export function redactPII(text: string, earlier: PlaceholderCounts = {}, known: PIIMatch[] = []): RedactionResult {
+  const matches = detectPII(text);
+  if (matches.length === 0) {
+    return { text, matches };
+  }
+
+  const placeholders = new Map<string, string>();
+  for (const match of known) {
+    if (match.placeholder) {
+      placeholders.set(placeholderKey(match), match.placeholder);
+    }
+  }
+
+  // Known placeholders are taken, so new values are numbered after them
+  const counters: PlaceholderCounts = { ...earlier };
+  for (const [type, count] of Object.entries(countPlaceholders([...placeholders.values()])) as [PIIType, number][]) {
+    counters[type] = Math.max(counters[type] || 0, count);
+  }
+
+  let redacted = '';
+  let position = 0;
+
+  for (const match of matches) {
+    const key = placeholderKey(match);
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      counters[match.type] = (counters[match.type] || 0) + 1;
+      placeholder = `[${PLACEHOLDER_NAMES[match.type]}_${counters[match.type]}]`;
+      placeholders.set(key, placeholder);
+    }
+
+    match.placeholder = placeholder;
+    redacted += text.slice(position, match.startIndex) + placeholder;
+    position = match.endIndex;
+  }
+
+  return { text: redacted + text.slice(position), matches };
+}
+
+function placeholderKey(match: PIIMatch): string {
+  return `${match.type}:${match.value.replace(/[-\s]/g, '')}`;
+}
+
+/**
+ * Put the original values back in place of their placeholders
+ */
+export function restorePII(text: string, matches: PIIMatch[]): string {
+  return matches.reduce(
+    (restored, match) => match.placeholder ? restored.split(match.placeholder).join(match.value) : restored,
+    text
+  );
+}
\ No newline at end of file
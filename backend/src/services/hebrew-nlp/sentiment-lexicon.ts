@@ -0,0 +1,87 @@
+/**
+ * Polarity of Hebrew words and phrases for offline sentiment analysis, from -3
+ * (very negative) to 3 (very positive). Adjectives are listed in the masculine
+ * singular; feminine and plural forms are found from them.
+ */
+
+export const POLARITY: Record<string, number> = {
+  // Positive
+  'מצוין': 3, 'מעולה': 3, 'מושלם': 3, 'מדהים': 3, 'נהדר': 2.8, 'מהמם': 2.8, 'מקסים': 2.5,
+  'נפלא': 2.8, 'יופי': 2, 'יפה': 1.5, 'טוב': 1.5, 'נחמד': 1.5, 'שווה': 1.5, 'אדיב': 2,
+  'מהיר': 1.2, 'יעיל': 1.5, 'מקצועי': 2, 'סבלני': 1.5, 'אמין': 1.5, 'ברור': 1, 'קל': 0.8,
+  'נוח': 1.2, 'מרוצה': 2.5, 'שמח': 2, 'מאושר': 2.5, 'מתלהב': 2.2, 'מרשים': 2.2,
+  'תודה': 1.5, 'אוהב': 2.2, 'אהב': 2.2, 'המליץ': 2.2, 'ממליץ': 2.2, 'הצליח': 1.5, 'עזר': 1.5,
+  'פתר': 1.5, 'הסתדר': 1.5, 'מעריך': 2, 'בהצלחה': 1, 'כיף': 2, 'מומלץ': 2,
+  // Slang
+  'סבבה': 1.5, 'אחלה': 2.2, 'חבל"ז': 3, 'תותח': 2.8, 'אש': 2.2, 'פצצה': 2.5,
+  'מגניב': 2, 'מלך': 2.5, 'מלכה': 2.5, 'גדול': 1, 'וואו': 1.5, 'פיקס': 1.5,
+  'מטורף': 2,
+  // Negative
+  'גרוע': -3, 'נורא': -2.5, 'איום': -3, 'זוועה': -3, 'זוועתי': -3, 'מחריד': -3, 'רע': -2.2,
+  'מאכזב': -2.2, 'מאוכזב': -2.2, 'אכזבה': -2.2, 'מתסכל': -2.2, 'תסכול': -2.2, 'מעצבן': -2.2,
+  'עצבים': -2, 'כועס': -2.2, 'עצוב': -1.8, 'ביזיון': -3, 'שערורייה': -3,
+  'חוצפה': -2.5, 'שוד': -2.5, 'עוקץ': -2.5, 'רמאות': -3, 'רמאי': -3, 'תלונה': -1.5,
+  'בעיה': -1, 'תקלה': -1.2, 'תקוע': -1.5, 'שבור': -1.5, 'פגום': -2,
+  'איטי': -1.5, 'מסובך': -1.2, 'מבולבל': -1, 'מיותר': -1.2, 'שונא': -2.8,
+  'נמאס': -2.5, 'חבל': -1.2, 'יקר': -1, 'טעות': -1.2, 'מחכה': -0.8, 'חיכה': -0.8,
+  'אדיש': -2, 'גס': -2.2, 'חצוף': -2.5, 'מזלזל': -2.5, 'זלזול': -2.5, 'מזעזע': -3, 'מחפיר': -3,
+  'משעמם': -1.5, 'מגעיל': -2.8,
+  // Negative slang
+  'באסה': -2, 'מבאס': -2, 'מעפן': -2.2, 'חרא': -3, 'פדיחה': -1.8, 'דפוק': -2.2, 'חארטה': -2.2,
+};
+
+// Multi-word expressions, matched before single words
+export const PHRASE_POLARITY: Record<string, number> = {
+  'כל הכבוד': 2.5, 'אין מילים': 2.2, 'אין עליכם': 3, 'אין עליך': 3, 'אין עלייך': 3,
+  'אין כמוכם': 3, 'חבל על הזמן': 3, 'שירות מעולה': 3, 'תודה רבה': 2.2, 'ממש עזרת': 2.2,
+  'על הפנים': -2.8, 'לא עונים': -1.8, 'לא עונה': -1.8, 'לא מקצועי': -2.2, 'תודה על כלום': -2.5,
+  'בזבוז זמן': -2.5, 'זה לא רציני': -2.2, 'לא רציני': -2, 'עוד פעם': -0.8, 'שוב פעם': -0.8,
+  'אין מענה': -2, 'עד מתי': -1.5, 'נו באמת': -1.8, 'די כבר': -1.8, 'ארוך מדי': -2, 'יקר מדי': -2.2,
+  'יותר מדי': -1.2, 'אין בעיה': 1.2,
+};
+
+// Words that flip the polarity of a following term: "לא טוב", "אין בעיה"
+export const NEGATORS = new Set(['לא', 'אין', 'אינו', 'אינה', 'אינם', 'אינני', 'בלי', 'ללא', 'אף', 'שום', 'מעולם']);
+
+// Strengthen negation when next to it: "בכלל לא", "ממש לא"
+export const NEGATION_BOOSTERS = new Set(['בכלל', 'ממש', 'לגמרי']);
+
+// Multipliers of a nearby term: boosters before or after it ("טוב מאוד", "ממש גרוע"), and dampers
+export const INTENSIFIERS: Record<string, number> = {
+  'מאוד': 1.4, 'ממש': 1.3, 'כל כך': 1.4, 'כ"כ': 1.4, 'ביותר': 1.5, 'לגמרי': 1.3, 'הכי': 1.5,
+  'סופר': 1.4, 'רצח': 1.5, 'בטירוף': 1.5, 'לאללה': 1.4, 'במיוחד': 1.3,
+  'קצת': 0.6, 'די': 0.8, 'יחסית': 0.7, 'בערך': 0.8,
+};
+
+// Sentiment words that act as intensifiers right before another term: "נורא טוב", "מטורף מהיר"
+export const INTENSIFYING_TERMS = new Set(['נורא', 'מטורף', 'פצצה']);
+
+// Words after which the rest of a sentence weighs more: "טוב, אבל איטי"
+export const CONTRAST_WORDS = new Set(['אבל', 'אך', 'אולם', 'למרות']);
+
+// Positive words often used sarcastically in complaints: "יופי, עוד פעם לא הגיע"
+export const SARCASM_PRONE = new Set([
+  'יופי', 'כל הכבוד', 'מעולה', 'נהדר', 'מצוין', 'תודה', 'תודה רבה', 'מדהים', 'מושלם', 'וואו', 'אחלה',
+]);
+
+// Complaints that make a sarcasm-prone word sarcastic in the same sentence
+export const COMPLAINT_MARKERS = new Set(['שוב', 'עדיין', 'חיכה', 'עוד פעם', 'שוב פעם', 'עד מתי', 'נו באמת']);
+
+// Words and emoji that mark a sentence as sarcastic
+export const SARCASM_WORDS = new Set(['כאילו']);
+export const SARCASM_EMOJI = ['🙄', '😒', '🙃', '😏'];
+
+export const EMOJI_POLARITY: Record<string, number> = {
+  '😀': 1.8, '😃': 1.8, '😄': 1.8, '😁': 1.8, '😊': 1.8, '🙂': 1.2, '😍': 2.5, '🥰': 2.5, '😘': 2,
+  '🤩': 2.5, '😎': 1.5, '😂': 1.2, '🤣': 1.2, '👍': 1.8, '👌': 1.5, '👏': 2, '🙏': 1.5, '💪': 1.5,
+  '🔥': 1.5, '🎉': 2, '❤': 2.2, '💙': 2, '💜': 2, '😇': 1.5, '💯': 2,
+  '😞': -1.8, '😔': -1.5, '😟': -1.5, '😢': -2, '😭': -2.2, '😩': -2, '😫': -2, '😠': -2.5,
+  '😡': -2.8, '🤬': -3, '😤': -2, '👎': -2.2, '💔': -2, '🤮': -2.8, '🤦': -1.8, '😑': -1, '😐': -0.5,
+  '🙄': -1.5, '😒': -1.5,
+};
+
+// ASCII emoticons
+export const EMOTICON_POLARITY: Record<string, number> = {
+  ':)': 1.2, ':-)': 1.2, ':D': 1.8, ':-D': 1.8, ';)': 1, '<3': 2,
+  ':(': -1.5, ':-(': -1.5, ':/': -0.8, ':-/': -0.8, ":'(": -2,
+};
\ No newline at end of file
@@ -0,0 +1,355 @@
+import { isKnownForm, lemmatizeWord, withFinalLetter } from './lemmatizer';
+import {
+  COMPLAINT_MARKERS,
+  CONTRAST_WORDS,
+  EMOJI_POLARITY,
+  EMOTICON_POLARITY,
+  INTENSIFIERS,
+  INTENSIFYING_TERMS,
+  NEGATION_BOOSTERS,
+  NEGATORS,
+  PHRASE_POLARITY,
+  POLARITY,
+  SARCASM_EMOJI,
+  SARCASM_PRONE,
+  SARCASM_WORDS,
+} from './sentiment-lexicon';
+import { Token, tokenize } from './tokenizer';
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface SentenceSentiment {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  score: number; // -1 to 1
+  label: SentimentLabel;
+  confidence: number;
+  // Positive words read as sarcasm: "יופי, עוד פעם לא הגיע"
+  sarcasm: boolean;
+}
+
+export interface SentimentResult {
+  score: number; // -1 to 1
+  label: SentimentLabel;
+  confidence: number;
+  sentences: SentenceSentiment[];
+}
+
+// Scores beyond this are positive or negative, as in the conversation analysis
+const LABEL_THRESHOLD = 0.2;
+// Maps the sum of term weights (-3 to 3 each) into -1 to 1
+const NORMALIZATION_ALPHA = 15;
+
+// A negator affects the first term within this many words after it
+const NEGATION_WINDOW = 3;
+const NEGATION_FACTOR = -0.74;
+// "בכלל לא טוב" is worse than "לא טוב"; "לא ממש טוב" is milder
+const STRONG_NEGATION_FACTOR = -1;
+const SOFT_NEGATION_FACTOR = -0.4;
+// Terms before "אבל" count less, terms after it more
+const BEFORE_CONTRAST_FACTOR = 0.5;
+const AFTER_CONTRAST_FACTOR = 1.5;
+// Added per exclamation mark, up to MAX_EXCLAMATIONS, and for stretched words ("מעולהההה")
+const EMPHASIS_WEIGHT = 0.3;
+const MAX_EXCLAMATIONS = 3;
+// A negative term this strong next to a sarcasm-prone word makes the sentence sarcastic
+const SARCASTIC_NEGATIVE_WEIGHT = -2;
+const LAUGHTER_WEIGHT = 0.8;
+
+// Sentences end at . ! ? … or a line break; a dot between digits is a decimal point
+const SENTENCE_REGEX = /(?:[^.!?…\n]|\.(?=\d))+[.!?…]*/g;
+const ELONGATION_REGEX = /([א-ת])\1{2,}/g;
+const LAUGHTER_REGEX = /(?<![א-ת])ח{3,}(?![א-ת])|\b(?:haha+|lol)\b/i;
+const EMOTICON_REGEX = new RegExp(
+  `(?<![\\w:/])(${Object.keys(EMOTICON_POLARITY).map(escapeRegExp).join('|')})(?![\\w/])`,
+  'g'
+);
+
+const MAX_PHRASE_WORDS = Math.max(...Object.keys(PHRASE_POLARITY).map(phrase => phrase.split(' ').length));
+
+interface Term {
+  text: string;
+  weight: number;
+  // First and last token of the term
+  start: number;
+  end: number;
+}
+
+/**
+ * Sentiment of Hebrew text from a polarity lexicon with slang and emoji. Each
+ * sentence is scored on its own, taking negation ("לא טוב", "אין בעיה"),
+ * intensifiers, contrast ("אבל") and sarcasm into account; the overall score
+ * is the mean of the sentences that carry any sentiment.
+ */
+export function analyzeSentiment(text: string): SentimentResult {
+  const sentences: SentenceSentiment[] = [];
+  const evidence: number[] = [];
+
+  for (const match of text.matchAll(SENTENCE_REGEX)) {
+    const sentence = match[0].trim();
+    if (!sentence) {
+      continue;
+    }
+
+    const startIndex = match.index! + match[0].indexOf(sentence);
+    const { score, confidence, sarcasm, terms } = scoreSentence(sentence);
+    sentences.push({
+      text: sentence,
+      startIndex,
+      endIndex: startIndex + sentence.length,
+      score,
+      label: labelOf(score),
+      confidence,
+      sarcasm,
+    });
+    evidence.push(terms);
+  }
+
+  const scored = sentences.filter((_, index) => evidence[index] > 0);
+  if (scored.length === 0) {
+    return { score: 0, label: 'neutral', confidence: 0.5, sentences };
+  }
+
+  const score = round(scored.reduce((sum, sentence) => sum + sentence.score, 0) / scored.length);
+  return {
+    score,
+    label: labelOf(score),
+    confidence: round(scored.reduce((sum, sentence) => sum + sentence.confidence, 0) / scored.length),
+    sentences,
+  };
+}
+
+function scoreSentence(sentence: string): { score: number; confidence: number; sarcasm: boolean; terms: number } {
+  const collapsed = sentence.replace(ELONGATION_REGEX, '$1');
+  const tokens = tokenize(collapsed, { isKnownWord: isKnownWord });
+  const terms = findTerms(tokens);
+  const contrastAt = tokens.findIndex(token => CONTRAST_WORDS.has(token.base));
+
+  const weights = terms.map(term => {
+    let weight = term.weight * modifierOf(tokens, terms, term);
+    if (contrastAt >= 0) {
+      weight *= term.start < contrastAt ? BEFORE_CONTRAST_FACTOR : AFTER_CONTRAST_FACTOR;
+    }
+    return weight;
+  });
+
+  const sarcasm = isSarcastic(sentence, tokens, terms, weights, contrastAt);
+  if (sarcasm) {
+    weights.forEach((weight, index) => {
+      weights[index] = -Math.abs(weight);
+    });
+  }
+
+  const emoji = emojiWeights(sentence);
+  if (LAUGHTER_REGEX.test(sentence) && !sarcasm) {
+    emoji.push(LAUGHTER_WEIGHT);
+  }
+
+  const all = [...weights, ...emoji];
+  let sum = all.reduce((total, weight) => total + weight, 0);
+  if (sum !== 0) {
+    const exclamations = Math.min(MAX_EXCLAMATIONS, (sentence.match(/!/g) || []).length);
+    const elongated = collapsed !== sentence ? 1 : 0;
+    sum += Math.sign(sum) * EMPHASIS_WEIGHT * (exclamations + elongated);
+  }
+
+  const score = round(sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA));
+  const mixed = all.some(weight => weight > 0) && all.some(weight => weight < 0);
+  let confidence = all.length === 0 ? 0.5 : Math.min(0.95, 0.5 + 0.1 * all.length) * (mixed ? 0.8 : 1);
+  if (sarcasm) {
+    confidence = Math.min(confidence, 0.6);
+  }
+
+  return { score, confidence: round(confidence), sarcasm, terms: all.length };
+}
+
+/**
+ * Lexicon phrases and words in a sentence. Words such as "נורא" count as
+ * intensifiers rather than terms when another term follows them.
+ */
+function findTerms(tokens: Token[]): Term[] {
+  const terms: Term[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const phrase = phraseAt(tokens, i);
+    if (phrase) {
+      terms.push(phrase);
+      i = phrase.end;
+      continue;
+    }
+
+    const weight = polarityOf(tokens[i]);
+    if (weight === undefined) {
+      continue;
+    }
+    if (INTENSIFYING_TERMS.has(tokens[i].base) && tokens[i + 1] && polarityOf(tokens[i + 1]) !== undefined) {
+      continue;
+    }
+    terms.push({ text: tokens[i].base, weight, start: i, end: i });
+  }
+
+  return terms;
+}
+
+/**
+ * Longest lexicon phrase starting at a token; only its first word may have prefixes
+ */
+function phraseAt(tokens: Token[], index: number): Term | null {
+  for (let words = Math.min(MAX_PHRASE_WORDS, tokens.length - index); words >= 2; words--) {
+    const rest = tokens.slice(index + 1, index + words).map(plainForm).join(' ');
+    for (const first of [tokens[index].base, plainForm(tokens[index])]) {
+      const phrase = `${first} ${rest}`;
+      if (phrase in PHRASE_POLARITY) {
+        return { text: phrase, weight: PHRASE_POLARITY[phrase], start: index, end: index + words - 1 };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Polarity of a word by its base form, lemma or masculine singular form
+ */
+function polarityOf(token: Token): number | undefined {
+  if (token.type !== 'WORD' && token.type !== 'ACRONYM') {
+    return undefined;
+  }
+
+  for (const form of wordForms(token.base)) {
+    if (form in POLARITY) {
+      return POLARITY[form];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Words the tokenizer keeps whole: known forms and lexicon words, so "מרוצה" is
+ * not read as מ + "רוצה", while "ומגעיל" is still split into ו + "מגעיל"
+ */
+function isKnownWord(word: string): boolean {
+  return isKnownForm(word) || wordForms(word).some(form => form in POLARITY);
+}
+
+/**
+ * The word, its lemma, and the masculine singular of a feminine or plural
+ * adjective: מעולים → מעולה, מצוינת → מצוין, גרועות → גרוע
+ */
+function wordForms(word: string): string[] {
+  const forms = [word, lemmatizeWord(word).lemma];
+  for (const suffix of ['ים', 'ות', 'ה', 'ת']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 2) {
+      const stem = word.slice(0, -suffix.length);
+      forms.push(stem, withFinalLetter(stem), `${stem}ה`);
+    }
+  }
+  return forms;
+}
+
+/**
+ * Combined effect of negators and intensifiers around a term
+ */
+function modifierOf(tokens: Token[], terms: Term[], term: Term): number {
+  const previousTerm = terms.filter(other => other.end < term.start).pop();
+  const windowStart = Math.max(previousTerm ? previousTerm.end + 1 : 0, term.start - NEGATION_WINDOW);
+
+  let negation = 1;
+  let negatorAt = -1;
+  for (let i = term.start - 1; i >= windowStart; i--) {
+    if (CONTRAST_WORDS.has(tokens[i].base)) {
+      break;
+    }
+    if (NEGATORS.has(tokens[i].base)) {
+      negatorAt = i;
+      break;
+    }
+  }
+
+  if (negatorAt >= 0) {
+    const before = tokens[negatorAt - 1]?.base;
+    const after = tokens[negatorAt + 1]?.base;
+    if (after === 'בכלל' || (before && NEGATION_BOOSTERS.has(before))) {
+      negation = STRONG_NEGATION_FACTOR;
+    } else if (after && NEGATION_BOOSTERS.has(after) && negatorAt + 1 < term.start) {
+      // "לא ממש טוב": the booster softens the negation instead of strengthening the term
+      return SOFT_NEGATION_FACTOR;
+    } else {
+      negation = NEGATION_FACTOR;
+    }
+  }
+
+  let intensity = 1;
+  for (const i of [term.start - 1, term.start - 2, term.end + 1]) {
+    if (i <= negatorAt || i < 0 || i >= tokens.length || terms.some(other => i >= other.start && i <= other.end)) {
+      continue;
+    }
+    const word = tokens[i].base;
+    const pair = i > 0 ? `${tokens[i - 1].base} ${word}` : '';
+    if (pair in INTENSIFIERS) {
+      intensity *= INTENSIFIERS[pair];
+    } else if (word in INTENSIFIERS) {
+      intensity *= INTENSIFIERS[word];
+    } else if (i === term.start - 1 && INTENSIFYING_TERMS.has(word)) {
+      intensity *= 1.5;
+    }
+  }
+
+  return negation * intensity;
+}
+
+/**
+ * A positive term reads as sarcasm next to a sarcasm cue (🙄, "כאילו"), or when
+ * a word such as "יופי" meets a complaint without a contrast: "יופי, שוב לא הגיע"
+ */
+function isSarcastic(sentence: string, tokens: Token[], terms: Term[], weights: number[], contrastAt: number): boolean {
+  if (!weights.some(weight => weight > 0)) {
+    return false;
+  }
+
+  if (tokens.some(token => SARCASM_WORDS.has(token.base)) || SARCASM_EMOJI.some(emoji => sentence.includes(emoji))) {
+    return true;
+  }
+
+  if (contrastAt >= 0) {
+    return false;
+  }
+  const sarcasmProne = terms.some((term, index) => weights[index] > 0 && SARCASM_PRONE.has(term.text));
+  const complaint = weights.some(weight => weight <= SARCASTIC_NEGATIVE_WEIGHT) ||
+    terms.some(term => COMPLAINT_MARKERS.has(term.text)) ||
+    tokens.some(token => wordForms(token.base).some(form => COMPLAINT_MARKERS.has(form)));
+  return sarcasmProne && complaint;
+}
+
+/**
+ * Weight of every emoji and emoticon in a sentence
+ */
+function emojiWeights(sentence: string): number[] {
+  const weights: number[] = [];
+  for (const [emoji, weight] of Object.entries(EMOJI_POLARITY)) {
+    const count = sentence.split(emoji).length - 1;
+    for (let i = 0; i < count; i++) {
+      weights.push(weight);
+    }
+  }
+  for (const match of sentence.matchAll(EMOTICON_REGEX)) {
+    weights.push(EMOTICON_POLARITY[match[1]]);
+  }
+  return weights;
+}
+
+function labelOf(score: number): SentimentLabel {
+  return score > LABEL_THRESHOLD ? 'positive' : score < -LABEL_THRESHOLD ? 'negative' : 'neutral';
+}
+
+function plainForm(token: Token): string {
+  return token.prefixes.join('') + token.base;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
\ No newline at end of file
@@ -0,0 +1,251 @@
+import { isKnownWord } from './lexicon';
+import { NIKUD, hasNikud } from './nikud';
+
+export type TokenType = 'WORD' | 'ACRONYM' | 'NUMBER' | 'LATIN';
+
+export interface TokenSegment {
+  text: string;
+  kind: 'PREFIX' | 'BASE';
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface Token {
+  // As written, with prefixes and nikud
+  text: string;
+  type: TokenType;
+  // Without prefixes or nikud, gershayim written as " and geresh as '
+  base: string;
+  // Proclitic prefixes, e.g. ['ו', 'ב'] for "ובבית" and ['ש', 'ה'] for "שהמשלוח"
+  prefixes: string[];
+  segments: TokenSegment[];
+  startIndex: number;
+  endIndex: number;
+  // Joined to the previous word by a maqaf or hyphen, e.g. ספר in "בית-ספר"
+  compound: boolean;
+  // Unknown word that may also start with a prefix; alternatives are the other possible base forms
+  ambiguous: boolean;
+  alternatives?: string[];
+}
+
+export interface TokenizeOptions {
+  // Base forms that prefixes may be split off to; defaults to the offline lexicon
+  isKnownWord?: (word: string) => boolean;
+}
+
+const LETTER = '\\u05D0-\\u05EA';
+
+// Hebrew words with gershayim or geresh inside (צה"ל, ג'ינס), and prefixed numbers (ב-5);
+// then Latin words and numbers
+const TOKEN_REGEX = new RegExp(
+  `([${LETTER}][${LETTER}${NIKUD}]*(?:["\\u05F4'\\u05F3][${LETTER}][${LETTER}${NIKUD}]*)*['\\u05F3]?)` +
+  `(?:([-\\u05BE]?)(\\d+(?:[.,:/]\\d+)*))?` +
+  `|([A-Za-z]+(?:['\\u2019][A-Za-z]+)*)` +
+  `|(\\d+(?:[.,:/]\\d+)*)`,
+  'g'
+);
+
+// Prefix sequences in the order they attach: ו, then ש/כש/מש/לכש, then ב/כ/ל/מ or ה
+const PREFIX_CHAIN_REGEX = /^(ו?)(ש|כש|מש|לכש)?(ה|מה|[בכלמ])?$/;
+
+// Prefixes are only split off when at least this many letters remain
+const MIN_BASE_LETTERS = 2;
+// ...and at least this many after מ or ש, which start many words: "מלך" is not מ+לך
+const MIN_BASE_LETTERS_AFTER_MEM_SHIN = 3;
+const MAX_PREFIX_LETTERS = 4;
+
+/**
+ * Split text into tokens, separating proclitic prefixes from Hebrew words.
+ * A known word is never split; otherwise the shortest prefix leaving a known
+ * word is used. Unknown words are kept whole and marked ambiguous when they
+ * could also be read with a prefix. Offsets point into the original text.
+ */
+export function tokenize(text: string, options: TokenizeOptions = {}): Token[] {
+  const isKnown = options.isKnownWord || isKnownWord;
+  const tokens: Token[] = [];
+  let match: RegExpExecArray | null;
+
+  TOKEN_REGEX.lastIndex = 0;
+  while ((match = TOKEN_REGEX.exec(text)) !== null) {
+    const [, hebrew, numberSeparator, prefixedNumber, latin, number] = match;
+    const start = match.index;
+
+    if (latin) {
+      tokens.push(plainToken(latin, 'LATIN', latin.toLowerCase(), start));
+      continue;
+    }
+    if (number) {
+      tokens.push(plainToken(number, 'NUMBER', number, start));
+      continue;
+    }
+
+    // "ב-5" is a number with prefixes; "שנת-2020" a word followed by a number
+    const previous = tokens[tokens.length - 1];
+    if (prefixedNumber !== undefined && PREFIX_CHAIN_REGEX.test(hebrew)) {
+      tokens.push(prefixedNumberToken(match[0], hebrew, prefixedNumber, start));
+      continue;
+    }
+
+    const word = trimClosingQuote(text, hebrew, start);
+    const compound = !!previous && previous.type !== 'NUMBER' && previous.type !== 'LATIN' &&
+      /^[-־]$/.test(text.slice(previous.endIndex, start));
+    tokens.push(wordToken(word, start, compound, isKnown));
+
+    if (prefixedNumber !== undefined) {
+      const numberStart = start + hebrew.length + numberSeparator.length;
+      tokens.push(plainToken(prefixedNumber, 'NUMBER', prefixedNumber, numberStart));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Hebrew word or acronym, split into prefixes and base
+ */
+function wordToken(text: string, start: number, compound: boolean, isKnown: (word: string) => boolean): Token {
+  // Positions in the original text of the characters left after removing nikud
+  const positions: number[] = [];
+  let plain = '';
+  for (let i = 0; i < text.length; i++) {
+    if (!hasNikud(text[i])) {
+      positions.push(start + i);
+      plain += text[i];
+    }
+  }
+  plain = plain.replace(/״/g, '"').replace(/׳/g, "'");
+
+  const type: TokenType = /"|'$/.test(plain) ? 'ACRONYM' : 'WORD';
+  const end = start + text.length;
+  const token: Token = {
+    text,
+    type,
+    base: plain,
+    prefixes: [],
+    segments: [{ text, kind: 'BASE', startIndex: start, endIndex: end }],
+    startIndex: start,
+    endIndex: end,
+    compound,
+    ambiguous: false,
+  };
+
+  // Only the first part of a compound carries prefixes
+  if (compound || isKnown(plain)) {
+    return token;
+  }
+
+  const alternatives: string[] = [];
+  for (let length = 1; length <= Math.min(MAX_PREFIX_LETTERS, plain.length); length++) {
+    const prefix = plain.slice(0, length);
+    const base = plain.slice(length);
+    const baseLetters = base.replace(/[^א-ת]/g, '').length;
+    if (!PREFIX_CHAIN_REGEX.test(prefix) || !/^[א-ת]/.test(base) || baseLetters < MIN_BASE_LETTERS) {
+      continue;
+    }
+
+    if (isKnown(base) && (!/[מש]/.test(prefix) || baseLetters >= MIN_BASE_LETTERS_AFTER_MEM_SHIN)) {
+      return splitToken(token, prefix, base, positions);
+    }
+    alternatives.push(base);
+  }
+
+  if (alternatives.length > 0) {
+    token.ambiguous = true;
+    token.alternatives = alternatives;
+  }
+  return token;
+}
+
+/**
+ * Move the prefix letters of a word token into their own segments
+ */
+function splitToken(token: Token, prefix: string, base: string, positions: number[]): Token {
+  const prefixes = prefixMorphemes(prefix);
+  const segments: TokenSegment[] = [];
+
+  let letter = 0;
+  for (const morpheme of prefixes) {
+    const startIndex = positions[letter];
+    letter += morpheme.length;
+    const endIndex = positions[letter];
+    segments.push({
+      text: token.text.slice(startIndex - token.startIndex, endIndex - token.startIndex),
+      kind: 'PREFIX',
+      startIndex,
+      endIndex,
+    });
+  }
+
+  const baseStart = positions[letter];
+  segments.push({
+    text: token.text.slice(baseStart - token.startIndex),
+    kind: 'BASE',
+    startIndex: baseStart,
+    endIndex: token.endIndex,
+  });
+
+  return { ...token, base, prefixes, segments };
+}
+
+/**
+ * Number written after prefixes, with or without a hyphen: "ב-5", "מ־100", "ל3"
+ */
+function prefixedNumberToken(text: string, prefix: string, number: string, start: number): Token {
+  const numberStart = start + text.length - number.length;
+  const prefixes = prefixMorphemes(prefix);
+  const segments: TokenSegment[] = [];
+
+  let offset = start;
+  for (const morpheme of prefixes) {
+    segments.push({ text: morpheme, kind: 'PREFIX', startIndex: offset, endIndex: offset + morpheme.length });
+    offset += morpheme.length;
+  }
+  segments.push({ text: number, kind: 'BASE', startIndex: numberStart, endIndex: numberStart + number.length });
+
+  return {
+    text,
+    type: 'NUMBER',
+    base: number,
+    prefixes,
+    segments,
+    startIndex: start,
+    endIndex: start + text.length,
+    compound: false,
+    ambiguous: false,
+  };
+}
+
+function plainToken(text: string, type: TokenType, base: string, start: number): Token {
+  const end = start + text.length;
+  return {
+    text,
+    type,
+    base,
+    prefixes: [],
+    segments: [{ text, kind: 'BASE', startIndex: start, endIndex: end }],
+    startIndex: start,
+    endIndex: end,
+    compound: false,
+    ambiguous: false,
+  };
+}
+
+/**
+ * Split a valid prefix sequence into its morphemes, e.g. "ושה" into ו, ש, ה
+ */
+function prefixMorphemes(prefix: string): string[] {
+  const [, conjunction, relative, preposition] = prefix.match(PREFIX_CHAIN_REGEX) || [];
+  const prepositions = preposition === 'מה' ? ['מ', 'ה'] : [preposition];
+  return [conjunction, relative, ...prepositions].filter(Boolean);
+}
+
+/**
+ * Drop a trailing geresh that closes a quote opened with the same character ('שלום')
+ */
+function trimClosingQuote(text: string, word: string, start: number): string {
+  const last = word[word.length - 1];
+  if ((last === "'" || last === '׳') && text[start - 1] === last) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
\ No newline at end of file
@@ -0,0 +1,179 @@
+import { BaseMessage } from '@langchain/core/messages';
+import { UsageKind } from '@prisma/client';
+import { prisma } from '../database/connection';
+import { logger } from '../utils/logger';
+import { countTokens } from './agent-engine/context-builder';
+import { modelRegistry } from './agent-engine/providers';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // True when the provider did not report usage and tokens were counted locally
+  estimated: boolean;
+}
+
+export interface UsageEntry extends TokenUsage {
+  kind: UsageKind;
+  model: string;
+  cost: number;
+}
+
+// A type alias so totals can be stored in JSON message metadata
+export type UsageTotals = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+};
+
+export interface UsageScope {
+  organizationId?: string;
+  agentId?: string;
+  conversationId?: string;
+  messageId?: string;
+}
+
+/**
+ * Collects the usage of all calls made while answering one message
+ */
+export class UsageCollector {
+  readonly entries: UsageEntry[] = [];
+
+  add(kind: UsageKind, model: string, usage: TokenUsage): void {
+    this.entries.push({
+      kind,
+      model,
+      ...usage,
+      cost: modelRegistry.costOf(model, usage.promptTokens, usage.completionTokens),
+    });
+  }
+
+  totals(): UsageTotals {
+    return sumUsage(this.entries);
+  }
+}
+
+export class UsageTracker {
+  private organizationsByAgent: Map<string, string>;
+
+  constructor() {
+    this.organizationsByAgent = new Map();
+  }
+
+  /**
+   * Persist usage entries. The organization is resolved from the agent when not given.
+   * Failures are logged and never interrupt the call that produced the usage.
+   */
+  async record(entries: UsageEntry[], scope: UsageScope): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    try {
+      const organizationId = scope.organizationId || await this.organizationOf(scope.agentId);
+      if (!organizationId) {
+        logger.warn('Usage not recorded: no organization for scope', scope);
+        return;
+      }
+
+      await prisma.usageRecord.createMany({
+        data: entries.map(entry => ({
+          organizationId,
+          agentId: scope.agentId,
+          conversationId: scope.conversationId,
+          messageId: scope.messageId,
+          kind: entry.kind,
+          model: entry.model,
+          promptTokens: entry.promptTokens,
+          completionTokens: entry.completionTokens,
+          totalTokens: entry.promptTokens + entry.completionTokens,
+          cost: entry.cost,
+          estimated: entry.estimated,
+        })),
+      });
+    } catch (error) {
+      logger.error('Failed to record usage:', error);
+    }
+  }
+
+  /**
+   * Record a single embedding call
+   */
+  async recordEmbedding(model: string, promptTokens: number, scope: UsageScope): Promise<void> {
+    const collector = new UsageCollector();
+    collector.add('EMBEDDING', model, { promptTokens, completionTokens: 0, estimated: true });
+    await this.record(collector.entries, scope);
+  }
+
+  private async organizationOf(agentId?: string): Promise<string | undefined> {
+    if (!agentId) {
+      return undefined;
+    }
+
+    let organizationId = this.organizationsByAgent.get(agentId);
+    if (!organizationId) {
+      const agent = await prisma.agent.findUnique({
+        where: { id: agentId },
+        select: { organizationId: true },
+      });
+      organizationId = agent?.organizationId;
+      if (organizationId) {
+        this.organizationsByAgent.set(agentId, organizationId);
+      }
+    }
+
+    return organizationId;
+  }
+}
+
+/**
+ * Read token usage from a chat model response. OpenAI reports it as
+ * response_metadata.tokenUsage and Anthropic as additional_kwargs.usage;
+ * streamed responses carry none, so tokens are counted locally.
+ */
+export function usageFromResponse(response: BaseMessage, prompt: BaseMessage[], tools?: unknown[]): TokenUsage {
+  const openai = response.response_metadata?.tokenUsage;
+  if (openai?.promptTokens !== undefined) {
+    return {
+      promptTokens: openai.promptTokens,
+      completionTokens: openai.completionTokens || 0,
+      estimated: false,
+    };
+  }
+
+  const anthropic = response.additional_kwargs?.usage as any;
+  if (anthropic?.input_tokens !== undefined) {
+    return {
+      promptTokens: anthropic.input_tokens,
+      completionTokens: anthropic.output_tokens || 0,
+      estimated: false,
+    };
+  }
+
+  const promptTokens = prompt.reduce((sum, message) => sum + countTokens(message.content.toString()), 0) +
+    (tools && tools.length > 0 ? countTokens(JSON.stringify(tools)) : 0);
+  const toolCalls = response.additional_kwargs?.tool_calls;
+  const completionTokens = countTokens(response.content.toString()) +
+    (toolCalls ? countTokens(JSON.stringify(toolCalls)) : 0);
+
+  return { promptTokens, completionTokens, estimated: true };
+}
+
+/**
+ * Add up token counts and cost
+ */
+export function sumUsage(entries: (TokenUsage & { cost: number })[]): UsageTotals {
+  const totals = entries.reduce(
+    (sum, entry) => ({
+      promptTokens: sum.promptTokens + entry.promptTokens,
+      completionTokens: sum.completionTokens + entry.completionTokens,
+      totalTokens: sum.totalTokens + entry.promptTokens + entry.completionTokens,
+      cost: sum.cost + entry.cost,
+    }),
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }
+  );
+
+  return { ...totals, cost: Math.round(totals.cost * 1_000_000) / 1_000_000 };
+}
+
+export const usageTracker = new UsageTracker();
\ No newline at end of file
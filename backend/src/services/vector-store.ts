@@ -1,6 +1,11 @@
 import { Document } from 'langchain/document';
+import { Embeddings } from '@langchain/core/embeddings';
 import { OpenAIEmbeddings } from '@langchain/openai';
 import { logger } from '../utils/logger';
+import { countTokens } from './agent-engine/context-builder';
+import { MOCK_LLM_ENABLED, MockEmbeddings } from './agent-engine/mock-provider';
+import { hebrewNLP } from './hebrew-nlp';
+import { UsageCollector, usageTracker } from './usage';
 import axios from 'axios';
 
 interface VectorDocument {
@@ -10,23 +15,35 @@ interface VectorDocument {
   metadata: Record<string, any>;
 }
 
-interface SearchResult {
+export interface SearchResult {
   id: string;
   score: number;
+  // Share of the query's keywords (lemmas) found in the document
+  keywordScore?: number;
   pageContent: string;
   metadata: Record<string, any>;
 }
 
+// Vector matches fetched per requested result, to be reranked with keyword matches
+const CANDIDATE_FACTOR = 3;
+
+// Weight of the keyword score in the ranking; vector similarity has weight 1
+const KEYWORD_WEIGHT = 0.2;
+
 export class VectorStore {
-  private embeddings: OpenAIEmbeddings;
+  private embeddings: Embeddings;
+  private embeddingModel: string = MOCK_LLM_ENABLED ? 'mock-embedding' : 'text-embedding-3-small';
   private qdrantUrl: string;
   private collectionName: string = 'hebrew-ai-documents';
 
   constructor() {
-    this.embeddings = new OpenAIEmbeddings({
-      openAIApiKey: process.env.OPENAI_API_KEY,
-      modelName: 'text-embedding-3-small',
-    });
+    // Deterministic local embeddings for offline development
+    this.embeddings = MOCK_LLM_ENABLED
+      ? new MockEmbeddings()
+      : new OpenAIEmbeddings({
+        openAIApiKey: process.env.OPENAI_API_KEY,
+        modelName: this.embeddingModel,
+      });
     this.qdrantUrl = process.env.QDRANT_URL || 'http://localhost:6333';
     this.initializeCollection();
   }
@@ -52,6 +69,12 @@ export class VectorStore {
         });
         logger.info(`Vector collection '${this.collectionName}' created`);
       }
+
+      // Index document keywords for keyword search
+      await axios.put(`${this.qdrantUrl}/collections/${this.collectionName}/index`, {
+        field_name: 'keywords',
+        field_schema: 'keyword',
+      });
     } catch (error) {
       logger.error('Failed to initialize vector collection:', error);
     }
@@ -66,14 +89,18 @@ export class VectorStore {
   ): Promise<void> {
     try {
       const points = [];
+      let embeddingTokens = 0;
 
       for (const doc of documents) {
-        const embedding = await this.embeddings.embedQuery(doc.pageContent);
+        embeddingTokens += countTokens(doc.pageContent);
+        // Embedded without nikud so vocalized and plain text land close together
+        const embedding = await this.embeddings.embedQuery(hebrewNLP.normalizeForMatching(doc.pageContent));
         points.push({
           id: doc.metadata.id || this.generateId(),
           vector: embedding,
           payload: {
             content: doc.pageContent,
+            keywords: hebrewNLP.keywords(doc.pageContent),
             ...doc.metadata,
             ...metadata,
           },
@@ -88,6 +115,10 @@ export class VectorStore {
         }
       );
 
+      await usageTracker.recordEmbedding(this.embeddingModel, embeddingTokens, {
+        agentId: metadata?.agentId || documents[0]?.metadata.agentId,
+      });
+
       logger.info(`Added ${documents.length} documents to vector store`);
     } catch (error) {
       logger.error('Failed to add documents to vector store:', error);
@@ -96,40 +127,99 @@ export class VectorStore {
   }
 
   /**
-   * Search for similar documents
+   * Search for similar documents. Vector matches are combined with documents
+   * sharing the query's keywords, so "ההזמנות שלי" also finds a document about
+   * "הזמנה", and ranked by both. The query embedding's usage is added to the
+   * collector when given, otherwise recorded against the filtered agent.
    */
   async similaritySearch(
     query: string,
     k: number = 5,
-    filter?: Record<string, any>
+    filter?: Record<string, any>,
+    usage?: UsageCollector
   ): Promise<SearchResult[]> {
     try {
       // Generate embedding for query
-      const queryEmbedding = await this.embeddings.embedQuery(query);
+      const queryEmbedding = await this.embedQuery(query, usage, filter?.agentId);
+      const keywords = hebrewNLP.keywords(query);
+      const baseFilter = filter ? this.buildQdrantFilter(filter) : undefined;
 
-      // Search in Qdrant
-      const response = await axios.post(
-        `${this.qdrantUrl}/collections/${this.collectionName}/points/search`,
-        {
-          vector: queryEmbedding,
-          limit: k,
-          filter: filter ? this.buildQdrantFilter(filter) : undefined,
-          with_payload: true,
-        }
-      );
+      // Search in Qdrant, by vector and among documents with a query keyword
+      const searches = [
+        { limit: k * CANDIDATE_FACTOR, filter: baseFilter },
+        ...(keywords.length > 0
+          ? [{
+              limit: k,
+              filter: {
+                must: baseFilter?.must || [],
+                should: [{ key: 'keywords', match: { any: keywords } }],
+              },
+            }]
+          : []),
+      ];
+      const responses = await Promise.all(searches.map(search =>
+        axios.post(
+          `${this.qdrantUrl}/collections/${this.collectionName}/points/search`,
+          {
+            vector: queryEmbedding,
+            limit: search.limit,
+            filter: search.filter,
+            with_payload: true,
+          }
+        )
+      ));
 
-      return response.data.result.map((hit: any) => ({
-        id: hit.id,
-        score: hit.score,
-        pageContent: hit.payload.content,
-        metadata: hit.payload,
-      }));
+      const results = new Map<string, SearchResult>();
+      for (const hit of responses.flatMap(response => response.data.result)) {
+        results.set(String(hit.id), {
+          id: hit.id,
+          score: hit.score,
+          keywordScore: this.keywordScore(keywords, hit.payload),
+          pageContent: hit.payload.content,
+          metadata: hit.payload,
+        });
+      }
+
+      const rank = (result: SearchResult) => result.score + KEYWORD_WEIGHT * (result.keywordScore || 0);
+      return [...results.values()]
+        .sort((a, b) => rank(b) - rank(a))
+        .slice(0, k);
     } catch (error) {
       logger.error('Vector search failed:', error);
       throw error;
     }
   }
 
+  /**
+   * Share of the query keywords found in a document. Documents indexed before
+   * keywords were stored are lemmatized on the fly.
+   */
+  private keywordScore(keywords: string[], payload: Record<string, any>): number {
+    if (keywords.length === 0) {
+      return 0;
+    }
+
+    const documentKeywords = new Set<string>(payload.keywords || hebrewNLP.keywords(payload.content || ''));
+    return keywords.filter(keyword => documentKeywords.has(keyword)).length / keywords.length;
+  }
+
+  /**
+   * Embed a query. Usage is added to the collector when given, otherwise
+   * recorded against the agent.
+   */
+  async embedQuery(query: string, usage?: UsageCollector, agentId?: string): Promise<number[]> {
+    const embedding = await this.embeddings.embedQuery(hebrewNLP.normalizeForMatching(query));
+
+    const embeddingUsage = { promptTokens: countTokens(query), completionTokens: 0, estimated: true };
+    if (usage) {
+      usage.add('EMBEDDING', this.embeddingModel, embeddingUsage);
+    } else {
+      await usageTracker.recordEmbedding(this.embeddingModel, embeddingUsage.promptTokens, { agentId });
+    }
+
+    return embedding;
+  }
+
   /**
    * Delete documents by filter
    */
@@ -158,7 +248,10 @@ export class VectorStore {
     metadata?: Record<string, any>
   ): Promise<void> {
     try {
-      const embedding = await this.embeddings.embedQuery(content);
+      const embedding = await this.embeddings.embedQuery(hebrewNLP.normalizeForMatching(content));
+      await usageTracker.recordEmbedding(this.embeddingModel, countTokens(content), {
+        agentId: metadata?.agentId,
+      });
 
       await axios.put(
         `${this.qdrantUrl}/collections/${this.collectionName}/points`,
@@ -169,6 +262,7 @@ export class VectorStore {
               vector: embedding,
               payload: {
                 content,
+                keywords: hebrewNLP.keywords(content),
                 ...metadata,
                 updatedAt: new Date().toISOString(),
               },
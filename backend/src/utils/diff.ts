@@ -0,0 +1,64 @@
+export interface DiffPart {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+/**
+ * Diff of two token sequences based on the longest common subsequence
+ */
+export function diffSequences(a: string[], b: string[]): DiffPart[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      parts.push({ type: 'removed', text: a[i++] });
+    } else {
+      parts.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    parts.push({ type: 'removed', text: a[i++] });
+  }
+  while (j < b.length) {
+    parts.push({ type: 'added', text: b[j++] });
+  }
+
+  return parts;
+}
+
+/**
+ * Line-level diff
+ */
+export function diffLines(from: string, to: string): DiffPart[] {
+  return diffSequences(from.split('\n'), to.split('\n'));
+}
+
+/**
+ * Word-level diff. Whitespace stays attached, and runs of the same type are merged.
+ */
+export function diffWords(from: string, to: string): DiffPart[] {
+  const tokenize = (text: string) => text.match(/\s*\S+|\s+$/g) || [];
+
+  return diffSequences(tokenize(from), tokenize(to)).reduce<DiffPart[]>((parts, part) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === part.type) {
+      last.text += part.text;
+    } else {
+      parts.push({ ...part });
+    }
+    return parts;
+  }, []);
+}
\ No newline at end of file
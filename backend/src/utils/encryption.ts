@@ -37,6 +37,26 @@ export function decryptData(encryptedData: string): string {
   return decrypted;
 }
 
+/**
+ * Check whether an integration configuration field holds a secret
+ */
+export function isSensitiveField(key: string): boolean {
+  return key.includes('Token') || key.includes('Secret') || key.includes('Password') || key.includes('Key');
+}
+
+/**
+ * Decrypt the sensitive fields of a stored integration configuration
+ */
+export function decryptConfiguration(config: Record<string, any>): Record<string, any> {
+  const decrypted: Record<string, any> = {};
+
+  Object.keys(config).forEach(key => {
+    decrypted[key] = isSensitiveField(key) ? decryptData(config[key]) : config[key];
+  });
+
+  return decrypted;
+}
+
 /**
  * Hash password or other data
  */
@@ -1,35 +1,15 @@
-import Bull from 'bull';
 import { logger } from '../utils/logger';
 import { prisma } from '../database/connection';
 import { vectorStore } from '../services/vector-store';
 import { hebrewNLP } from '../services/hebrew-nlp';
 import { agentEngine } from '../services/agent-engine';
+import { semanticCache } from '../services/agent-engine/semantic-cache';
+import { evaluationService } from '../services/evaluation';
 import { Document } from 'langchain/document';
+import { queues } from './queues';
 
-// Create queues
-const queues = {
-  documentProcessing: new Bull('document-processing', {
-    redis: {
-      host: process.env.REDIS_HOST || 'localhost',
-      port: parseInt(process.env.REDIS_PORT || '6379'),
-      password: process.env.REDIS_PASSWORD,
-    },
-  }),
-  conversationAnalysis: new Bull('conversation-analysis', {
-    redis: {
-      host: process.env.REDIS_HOST || 'localhost',
-      port: parseInt(process.env.REDIS_PORT || '6379'),
-      password: process.env.REDIS_PASSWORD,
-    },
-  }),
-  messageProcessing: new Bull('message-processing', {
-    redis: {
-      host: process.env.REDIS_HOST || 'localhost',
-      port: parseInt(process.env.REDIS_PORT || '6379'),
-      password: process.env.REDIS_PASSWORD,
-    },
-  }),
-};
+// Topics stored per analyzed conversation
+const MAX_CONVERSATION_TOPICS = 5;
 
 // Document processing worker
 queues.documentProcessing.process(async (job) => {
@@ -62,6 +42,9 @@ queues.documentProcessing.process(async (job) => {
     
     // Add to vector store
     await vectorStore.addDocuments(documents, { agentId });
+
+    // Cached answers may not reflect the new document
+    await semanticCache.invalidate(agentId);
     
     // Update document status
     await prisma.document.update({
@@ -117,6 +100,7 @@ queues.conversationAnalysis.process(async (job) => {
             messageId: message.id,
             sentiment: analysis.sentiment,
             entities: analysis.entities,
+            keywords: hebrewNLP.keywords(analysis.normalizedText),
             isHebrew: analysis.isHebrew,
           };
         }
@@ -146,7 +130,32 @@ queues.conversationAnalysis.process(async (job) => {
       acc[entity.type].push(entity.text);
       return acc;
     }, {} as Record<string, string[]>);
+
+    // Topics are the lemmas users mention most, so "הזמנות" and "ההזמנה" count once
+    const keywordCounts = new Map<string, number>();
+    for (const keyword of validAnalyses.flatMap(a => a!.keywords)) {
+      keywordCounts.set(keyword, (keywordCounts.get(keyword) || 0) + 1);
+    }
+    const topics = [...keywordCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CONVERSATION_TOPICS)
+      .map(([keyword]) => keyword);
     
+    // The satisfaction metrics in the analytics overview count user messages by their sentiment label
+    const messagesById = new Map(conversation.messages.map(message => [message.id, message]));
+    await prisma.$transaction(
+      validAnalyses.map(a => prisma.message.update({
+        where: { id: a!.messageId },
+        data: {
+          metadata: {
+            ...(messagesById.get(a!.messageId)!.metadata as Record<string, any>),
+            sentiment: a!.sentiment.label,
+            sentimentScore: a!.sentiment.score,
+          },
+        },
+      }))
+    );
+
     // Update conversation metadata
     await prisma.conversation.update({
       where: { id: conversationId },
@@ -161,9 +170,11 @@ queues.conversationAnalysis.process(async (job) => {
                 messageId: a!.messageId,
                 score: a!.sentiment.score,
                 label: a!.sentiment.label,
+                sarcasm: a!.sentiment.sentences.some(sentence => sentence.sarcasm),
               })),
             },
             entities: entitiesByType,
+            topics,
             language: validAnalyses.some(a => a!.isHebrew) ? 'he' : 'en',
             analyzedAt: new Date(),
           },
@@ -221,6 +232,18 @@ queues.messageProcessing.process(async (job) => {
   }
 });
 
+// Evaluation worker (runs an agent version against a test suite)
+queues.evaluation.process(async (job) => {
+  const { runId } = job.data;
+  
+  logger.info(`Running evaluation ${runId}`);
+  
+  const run = await evaluationService.run(runId);
+  
+  logger.info(`Evaluation ${runId} ${run.status.toLowerCase()}: ${run.passed}/${run.total} cases passed`);
+  return { success: run.status === 'COMPLETED', passed: run.passed, total: run.total };
+});
+
 // Helper function to chunk text
 function chunkText(text: string, chunkSize: number): string[] {
   const chunks: string[] = [];
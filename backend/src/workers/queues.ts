@@ -0,0 +1,33 @@
+import Bull from 'bull';
+
+// Queues are shared by the API, which adds jobs, and the worker process, which runs them
+export const queues = {
+  documentProcessing: new Bull('document-processing', {
+    redis: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+  }),
+  conversationAnalysis: new Bull('conversation-analysis', {
+    redis: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+  }),
+  messageProcessing: new Bull('message-processing', {
+    redis: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+  }),
+  evaluation: new Bull('agent-evaluation', {
+    redis: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    },
+  }),
+};
\ No newline at end of file